@@ -0,0 +1,285 @@
+// Relay for online races (npm run relay). Pairs two players by room code,
+// deals both the same seed and the settings of whoever opened the room, then
+// passes progress, attacks and results from one player to the other. Uses
+// only Node's own modules, with just enough WebSocket (RFC 6455) for the game.
+import { createServer } from 'node:http';
+import { createHash, randomInt } from 'node:crypto';
+
+// Keep in step with RACE_PROTOCOL_VERSION in src/network.ts
+const PROTOCOL_VERSION = 1;
+const PORT = Number(process.env.PORT ?? 8787);
+// Quiet apart from the address it listens on; RELAY_LOG=1 also reports rooms and races
+const LOG_RACES = process.env.RELAY_LOG === '1';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// A join carries the whole engine config, word list included
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+const MAX_ROOM_LENGTH = 32;
+const MAX_NAME_LENGTH = 24;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const CLOSE_NORMAL = 1000;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_TOO_LARGE = 1009;
+
+// Most rows one attack message may push into the opponent's wall
+const MAX_ATTACK_ROWS = 3;
+
+// Broken input from a peer, with the status code to close their connection with
+const frameError = (message, code = CLOSE_PROTOCOL_ERROR) => Object.assign(new Error(message), { code });
+
+const log = (message, always = false) => {
+  if (always || LOG_RACES) console.log(`${new Date().toISOString()} ${message}`);
+};
+
+// One unmasked frame, as a server sends them
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 0x10000 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 0x10000) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// The first whole frame in the buffer, or null while more bytes are needed
+const decodeFrame = buffer => {
+  if (buffer.length < 2) return null;
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  // Browsers mask every frame they send, and the RFC has servers drop those that don't
+  if ((buffer[1] & 0x80) === 0) throw frameError('Unmasked frame');
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (length > MAX_MESSAGE_BYTES) throw frameError('Message too large', CLOSE_TOO_LARGE);
+  const maskOffset = offset;
+  offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  return { fin, opcode, payload, size: offset + length };
+};
+
+// A connected player: their socket, name and the room they are in
+const createPeer = socket => {
+  let buffer = Buffer.alloc(0);
+  // The text message being put together from its frames, null between messages
+  let fragments = null;
+  let fragmentBytes = 0;
+  let open = true;
+
+  const peer = {
+    name: 'Player',
+    room: null,
+    opponent: null,
+    onMessage: () => {},
+    onClose: () => {},
+    send(message) {
+      if (open) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+    },
+    close(code = CLOSE_NORMAL) {
+      if (!open) return;
+      open = false;
+      const status = Buffer.alloc(2);
+      status.writeUInt16BE(code);
+      socket.end(encodeFrame(OPCODE_CLOSE, status));
+      peer.onClose();
+    }
+  };
+
+  socket.on('data', chunk => {
+    buffer = Buffer.concat([buffer, chunk]);
+    try {
+      let frame;
+      while (open && (frame = decodeFrame(buffer))) {
+        buffer = buffer.subarray(frame.size);
+        if (frame.opcode === OPCODE_CLOSE) {
+          peer.close();
+        } else if (frame.opcode === OPCODE_PING) {
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+        } else if (frame.opcode === OPCODE_TEXT || frame.opcode === OPCODE_CONTINUATION) {
+          // A continuation belongs to an open text message, and a new one can't start inside another
+          if ((frame.opcode === OPCODE_CONTINUATION) !== (fragments !== null)) {
+            throw frameError('Unexpected fragment');
+          }
+          fragments ??= [];
+          fragments.push(frame.payload);
+          fragmentBytes += frame.payload.length;
+          if (fragmentBytes > MAX_MESSAGE_BYTES) throw frameError('Message too large', CLOSE_TOO_LARGE);
+          if (frame.fin) {
+            const text = Buffer.concat(fragments).toString('utf8');
+            fragments = null;
+            fragmentBytes = 0;
+            let message;
+            try {
+              message = JSON.parse(text);
+            } catch {
+              continue;
+            }
+            if (message && typeof message === 'object') peer.onMessage(message);
+          }
+        }
+      }
+    } catch (error) {
+      peer.close(error.code ?? CLOSE_PROTOCOL_ERROR);
+    }
+  });
+  socket.on('close', () => {
+    if (!open) return;
+    open = false;
+    peer.onClose();
+  });
+  socket.on('error', () => socket.destroy());
+
+  return peer;
+};
+
+// Rooms with one player waiting for an opponent, by room code
+const waiting = new Map();
+
+const cleanText = (value, maxLength, fallback) =>
+  (typeof value === 'string' ? value.trim().slice(0, maxLength) : '') || fallback;
+
+const join = (peer, message) => {
+  if (message.version !== PROTOCOL_VERSION) {
+    peer.send({ type: 'error', message: 'This game and the relay speak different versions; update both' });
+    peer.close();
+    return;
+  }
+  if (peer.room !== null) return;
+  if (typeof message.config !== 'object' || message.config === null || typeof message.layoutId !== 'string') {
+    peer.send({ type: 'error', message: 'The join message has no game settings' });
+    peer.close();
+    return;
+  }
+  peer.name = cleanText(message.name, MAX_NAME_LENGTH, 'Player');
+  peer.room = cleanText(message.room, MAX_ROOM_LENGTH, 'lobby').toUpperCase();
+
+  const host = waiting.get(peer.room);
+  if (!host) {
+    peer.settings = { layoutId: message.layoutId, config: message.config };
+    waiting.set(peer.room, peer);
+    peer.send({ type: 'waiting', room: peer.room });
+    log(`${peer.name} opened room ${peer.room}`);
+    return;
+  }
+
+  waiting.delete(peer.room);
+  host.opponent = peer;
+  peer.opponent = host;
+  const seed = randomInt(0x7fffffff);
+  host.send({ type: 'start', seed, ...host.settings, opponent: peer.name });
+  peer.send({ type: 'start', seed, ...host.settings, opponent: host.name });
+  log(`Race in room ${peer.room}: ${host.name} against ${peer.name}`);
+};
+
+const isNumber = value => typeof value === 'number' && Number.isFinite(value);
+
+// A message for the opponent, rebuilt from just the fields it should have,
+// or null when it is malformed
+const relayedMessage = message => {
+  switch (message.type) {
+    case 'progress': {
+      const { progress } = message;
+      if (typeof progress !== 'object' || progress === null) return null;
+      const { score, lives, bricksLeft, level } = progress;
+      return [score, lives, bricksLeft, level].every(isNumber)
+        ? { type: 'progress', progress: { score, lives, bricksLeft, level } }
+        : null;
+    }
+    case 'attack':
+      return Number.isInteger(message.rows) && message.rows > 0
+        ? { type: 'attack', rows: Math.min(message.rows, MAX_ATTACK_ROWS) }
+        : null;
+    case 'finished':
+      return typeof message.won === 'boolean' && isNumber(message.score)
+        ? { type: 'finished', won: message.won, score: message.score }
+        : null;
+    default:
+      return null;
+  }
+};
+
+// The race is over for both players, who may join a room again for a rematch
+const endRace = peer => {
+  const { opponent } = peer;
+  peer.room = null;
+  peer.opponent = null;
+  if (opponent) {
+    opponent.room = null;
+    opponent.opponent = null;
+  }
+};
+
+const handleMessage = (peer, message) => {
+  if (message.type === 'join') {
+    join(peer, message);
+    return;
+  }
+  const relayed = peer.opponent && relayedMessage(message);
+  if (!relayed) return;
+  peer.opponent.send(relayed);
+  // The first player to finish decides the race
+  if (relayed.type === 'finished') {
+    log(`Room ${peer.room}: ${peer.name} ${relayed.won ? 'cleared the wall' : 'ran out of lives'} with ${relayed.score} points`);
+    endRace(peer);
+  }
+};
+
+const handleClose = peer => {
+  if (waiting.get(peer.room) === peer) waiting.delete(peer.room);
+  const { opponent } = peer;
+  endRace(peer);
+  opponent?.send({ type: 'left' });
+};
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('Type Breaker race relay: connect over WebSocket\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  const peer = createPeer(socket);
+  peer.onMessage = message => handleMessage(peer, message);
+  peer.onClose = () => handleClose(peer);
+});
+
+server.listen(PORT, () => {
+  log(`Race relay listening on ws://localhost:${PORT}`, true);
+});
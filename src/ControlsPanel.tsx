@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ACTION_LABELS,
+  COMMAND_ACTIONS,
+  CommandAction,
+  DEFAULT_BINDINGS,
+  KeyBindings,
+  MAX_BINDINGS,
+  bindingForKey,
+  bindingLabel,
+  findConflicts,
+  isModifierKey
+} from './input';
+import {
+  DEFAULT_POINTER_SETTINGS,
+  POINTER_MODES,
+  POINTER_MODE_LABELS,
+  PointerMode,
+  PointerSettings,
+  SENSITIVITY_RANGE
+} from './pointer';
+
+interface ControlsPanelProps {
+  bindings: KeyBindings;
+  pointer: PointerSettings;
+  onSave: (bindings: KeyBindings, pointer: PointerSettings) => void;
+  onClose: () => void;
+}
+
+// A key slot waiting for a press; index past the end adds a key
+interface Capture {
+  action: CommandAction;
+  index: number;
+}
+
+const POINTER_HINTS: Record<PointerMode, string> = {
+  off: 'The mouse leaves the paddle alone',
+  follow: 'The paddle follows the mouse across the field',
+  trackpad: 'The paddle moves by how far the mouse moves, scaled by the sensitivity'
+};
+
+// Rebinding of the game commands, and how the mouse moves the paddle
+const ControlsPanel: React.FC<ControlsPanelProps> = ({ bindings, pointer, onSave, onClose }) => {
+  const [draft, setDraft] = useState<KeyBindings>(bindings);
+  const [pointerDraft, setPointerDraft] = useState<PointerSettings>(pointer);
+  const [capture, setCapture] = useState<Capture | null>(null);
+
+  const conflicts = findConflicts(draft);
+  const valid = Object.keys(conflicts).length === 0;
+
+  // The next key pressed goes into the slot, with Ctrl or Alt if held;
+  // Escape closes the panel unless a slot is waiting, when it is bound
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!capture) {
+        if (e.code === 'Escape') onClose();
+        return;
+      }
+      e.preventDefault();
+      if (isModifierKey(e.code)) return;
+      const binding = bindingForKey(e);
+      setDraft(prev => {
+        const list = [...prev[capture.action]];
+        list[capture.index] = binding;
+        return { ...prev, [capture.action]: list };
+      });
+      setCapture(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [capture, onClose]);
+
+  const removeBinding = (action: CommandAction, index: number) => {
+    setCapture(null);
+    setDraft(prev => ({ ...prev, [action]: prev[action].filter((_, other) => other !== index) }));
+  };
+
+  const isWaiting = (action: CommandAction, index: number) =>
+    capture?.action === action && capture.index === index;
+
+  // The button lets go of focus, or Space and Enter would click it again
+  const toggleCapture = (e: React.MouseEvent<HTMLButtonElement>, action: CommandAction, index: number) => {
+    e.currentTarget.blur();
+    setCapture(isWaiting(action, index) ? null : { action, index });
+  };
+
+  const save = () => {
+    if (!valid) return;
+    onSave(draft, pointerDraft);
+  };
+
+  return (
+    <div className="absolute inset-0 bg-gray-900 bg-opacity-95 rounded-lg text-white p-6 overflow-y-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-yellow-400">Controls</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded text-sm font-bold bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          Close (Esc)
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-400 mb-4">
+        Click a key to change it, then press the new key, holding Ctrl or Alt for a key that types.
+        Every letter, digit, punctuation key and Space without a modifier is kept for typing;
+        only player 1's two-player keys may be digits, since that match is typed in letters.
+      </p>
+
+      <table className="text-sm mb-4">
+        <tbody>
+          {COMMAND_ACTIONS.map(action => (
+            <tr key={action}>
+              <td className="pr-4 py-1">{ACTION_LABELS[action]}</td>
+              <td className="pr-4 py-1">
+                <div className="flex items-center gap-2">
+                  {draft[action].map((binding, index) => (
+                    <span key={index} className="flex items-center">
+                      <button
+                        onClick={e => toggleCapture(e, action, index)}
+                        className={`px-3 py-1 rounded-l font-bold min-w-[4rem] ${
+                          isWaiting(action, index) ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                        } ${conflicts[action] ? 'ring-2 ring-red-500' : ''}`}
+                      >
+                        {isWaiting(action, index) ? 'Press a key…' : bindingLabel(binding)}
+                      </button>
+                      <button
+                        onClick={() => removeBinding(action, index)}
+                        title="Remove this key"
+                        className="px-2 py-1 rounded-r bg-gray-700 text-gray-400 hover:bg-gray-600"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  {draft[action].length < MAX_BINDINGS && (
+                    <button
+                      onClick={e => toggleCapture(e, action, draft[action].length)}
+                      className={`px-3 py-1 rounded font-bold ${
+                        isWaiting(action, draft[action].length) ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                      }`}
+                    >
+                      {isWaiting(action, draft[action].length) ? 'Press a key…' : '+ Add'}
+                    </button>
+                  )}
+                </div>
+              </td>
+              <td className="py-1 text-red-400">{conflicts[action]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h3 className="text-lg font-bold text-yellow-400 mb-2">Mouse and Touch</h3>
+      <div className="flex gap-2 mb-1">
+        {POINTER_MODES.map(mode => (
+          <button
+            key={mode}
+            onClick={() => setPointerDraft(prev => ({ ...prev, mode }))}
+            className={`px-3 py-1 rounded text-sm font-bold transition-colors ${
+              mode === pointerDraft.mode ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {POINTER_MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-gray-400 mb-2">
+        {POINTER_HINTS[pointerDraft.mode]}. A finger or pen always drags the paddle along the bottom of the field.
+      </p>
+      <div className={`text-sm mb-4 ${pointerDraft.mode === 'trackpad' ? '' : 'opacity-50'}`}>
+        <label className="flex items-center gap-2 mb-1">
+          Sensitivity
+          <input
+            type="range"
+            min={SENSITIVITY_RANGE.min}
+            max={SENSITIVITY_RANGE.max}
+            step={SENSITIVITY_RANGE.step}
+            value={pointerDraft.sensitivity}
+            disabled={pointerDraft.mode !== 'trackpad'}
+            onChange={e => setPointerDraft(prev => ({ ...prev, sensitivity: Number(e.target.value) }))}
+            className="w-48"
+          />
+          <span className="tabular-nums text-gray-400">{pointerDraft.sensitivity.toFixed(2)}×</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={pointerDraft.pointerLock}
+            disabled={pointerDraft.mode !== 'trackpad'}
+            onChange={e => setPointerDraft(prev => ({ ...prev, pointerLock: e.target.checked }))}
+          />
+          Lock the pointer to the game while playing (click the field to lock it, Esc to let go)
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={save}
+          disabled={!valid}
+          className="px-4 py-2 rounded font-bold bg-teal-600 text-white hover:bg-teal-500 disabled:bg-gray-700 disabled:text-gray-500"
+        >
+          Save
+        </button>
+        <button
+          onClick={() => {
+            setCapture(null);
+            setDraft(DEFAULT_BINDINGS);
+            setPointerDraft(DEFAULT_POINTER_SETTINGS);
+          }}
+          className="px-4 py-2 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          Reset to Defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ControlsPanel;
@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_GAMEPAD_SETTINGS,
+  GAMEPAD_ACTIONS,
+  GAMEPAD_ACTION_LABELS,
+  GAMEPAD_RANGES,
+  GamepadAction,
+  GamepadReading,
+  GamepadSettings,
+  axisLabel,
+  buttonLabel,
+  createGamepadReader,
+  findButtonConflicts,
+  stickValue
+} from './gamepad';
+
+interface GamepadPanelProps {
+  settings: GamepadSettings;
+  onSave: (settings: GamepadSettings) => void;
+  onClose: () => void;
+}
+
+type Range = keyof typeof GAMEPAD_RANGES;
+
+const RANGES = Object.keys(GAMEPAD_RANGES) as Range[];
+
+// How far a stick must move from where it rests to be picked for steering.
+// Triggers on some controllers rest at -1, so the rest position counts.
+const AXIS_PICK_TRAVEL = 0.7;
+
+// A bar from full left to full right with a mark at the value
+const StickMeter: React.FC<{ value: number; color: string }> = ({ value, color }) => (
+  <div className="relative w-64 h-3 rounded bg-gray-700">
+    <div className="absolute inset-y-0 left-1/2 w-px bg-gray-500" />
+    <div
+      className={`absolute inset-y-0 w-2 -ml-1 rounded ${color}`}
+      style={{ left: `${(Math.max(-1, Math.min(1, value)) + 1) * 50}%` }}
+    />
+  </div>
+);
+
+// Steering, response and button mapping of a game controller, with the
+// stick shown live so the deadzone and curve can be tuned by feel
+const GamepadPanel: React.FC<GamepadPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<GamepadSettings>(settings);
+  const [reading, setReading] = useState<GamepadReading | null>(null);
+  // What the next stick push or button press is picked for
+  const [capture, setCapture] = useState<'axis' | GamepadAction | null>(null);
+  const readerRef = useRef(createGamepadReader());
+
+  const conflicts = findButtonConflicts(draft.buttons);
+  const valid = Object.keys(conflicts).length === 0;
+
+  useEffect(() => {
+    let rest: readonly number[] | null = null;
+    let frame = requestAnimationFrame(function poll() {
+      const next = readerRef.current.read(draft);
+      setReading(next);
+      if (next && capture === 'axis') {
+        const from = rest ?? (rest = [...next.axes]);
+        const axis = next.axes.findIndex((value, index) => Math.abs(value - from[index]) >= AXIS_PICK_TRAVEL);
+        if (axis >= 0) {
+          setDraft(prev => ({ ...prev, axis }));
+          setCapture(null);
+        }
+      } else if (next && capture && next.pressed.length > 0) {
+        const button = next.pressed[0];
+        setDraft(prev => ({ ...prev, buttons: { ...prev.buttons, [capture]: button } }));
+        setCapture(null);
+      }
+      frame = requestAnimationFrame(poll);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [draft, capture]);
+
+  const raw = reading?.axes[draft.axis] ?? 0;
+
+  const save = () => {
+    if (!valid) return;
+    onSave(draft);
+  };
+
+  return (
+    <div className="absolute inset-0 bg-gray-900 bg-opacity-95 rounded-lg text-white p-6 overflow-y-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-yellow-400">Controller</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded text-sm font-bold bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          Close (Esc)
+        </button>
+      </div>
+
+      <p className={`text-sm mb-4 ${reading ? 'text-teal-400' : 'text-gray-400'}`}>
+        {reading
+          ? `Connected: ${reading.id}`
+          : 'No controller found. Connect one and press any of its buttons so the browser shows it to the game.'}
+      </p>
+
+      <table className="text-sm mb-4">
+        <tbody>
+          <tr>
+            <td className="pr-4 py-1">Steering</td>
+            <td className="pr-4 py-1">
+              <button
+                onClick={() => setCapture(capture === 'axis' ? null : 'axis')}
+                className={`px-3 py-1 rounded font-bold ${
+                  capture === 'axis' ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                }`}
+              >
+                {capture === 'axis' ? 'Push a stick all the way…' : axisLabel(draft.axis)}
+              </button>
+            </td>
+            <td className="py-1">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.invert}
+                  onChange={e => setDraft(prev => ({ ...prev, invert: e.target.checked }))}
+                />
+                Invert
+              </label>
+            </td>
+          </tr>
+          <tr>
+            <td className="pr-4 py-1">Stick</td>
+            <td className="py-1" colSpan={2}><StickMeter value={raw} color="bg-gray-300" /></td>
+          </tr>
+          <tr>
+            <td className="pr-4 py-1">Paddle</td>
+            <td className="py-1" colSpan={2}><StickMeter value={stickValue(raw, draft)} color="bg-teal-400" /></td>
+          </tr>
+          {RANGES.map(field => {
+            const range = GAMEPAD_RANGES[field];
+            return (
+              <tr key={field}>
+                <td className="pr-4 py-1">{range.label}</td>
+                <td className="pr-4 py-1">
+                  <input
+                    type="range"
+                    min={range.min}
+                    max={range.max}
+                    step={range.step}
+                    value={draft[field]}
+                    onChange={e => setDraft(prev => ({ ...prev, [field]: Number(e.target.value) }))}
+                    className="w-64"
+                  />
+                </td>
+                <td className="py-1 text-gray-400 tabular-nums">
+                  {field === 'deadzone' ? `${Math.round(draft.deadzone * 100)}%` : `${draft[field].toFixed(1)}${field === 'speed' ? '×' : ''}`}
+                </td>
+              </tr>
+            );
+          })}
+          {GAMEPAD_ACTIONS.map(action => (
+            <tr key={action}>
+              <td className="pr-4 py-1">{GAMEPAD_ACTION_LABELS[action]}</td>
+              <td className="pr-4 py-1">
+                <button
+                  onClick={() => setCapture(capture === action ? null : action)}
+                  className={`px-3 py-1 rounded font-bold ${
+                    capture === action ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                  } ${conflicts[action] ? 'ring-2 ring-red-500' : ''}`}
+                >
+                  {capture === action ? 'Press a button…' : buttonLabel(draft.buttons[action])}
+                </button>
+              </td>
+              <td className="py-1 text-red-400">{conflicts[action]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-sm text-gray-400 mb-4">The d-pad moves the paddle like the arrow keys.</p>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={save}
+          disabled={!valid}
+          className="px-4 py-2 rounded font-bold bg-teal-600 text-white hover:bg-teal-500 disabled:bg-gray-700 disabled:text-gray-500"
+        >
+          Save
+        </button>
+        <button
+          onClick={() => {
+            setCapture(null);
+            setDraft(DEFAULT_GAMEPAD_SETTINGS);
+          }}
+          className="px-4 py-2 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          Reset to Defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GamepadPanel;
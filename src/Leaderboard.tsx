@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { GameMode, LAYOUTS } from './engine';
+import { LESSONS } from './curriculum';
+import { LEVELS } from './levels';
+import { Profile, leaderboard, summarizeProfile } from './profiles';
+
+interface LeaderboardProps {
+  profiles: Profile[];
+  activeProfile: Profile;
+  initialMode: GameMode;
+  onClose: () => void;
+}
+
+const MODE_TABS: { mode: GameMode; label: string }[] = [
+  { mode: 'letter', label: 'Letter' },
+  { mode: 'word', label: 'Word' },
+  { mode: 'classic', label: 'Classic' }
+];
+
+const RECENT_SESSIONS = 8;
+
+const formatDate = (date: number) => new Date(date).toLocaleDateString();
+
+const formatPercent = (value: number | null) => value === null ? '–' : `${Math.round(value * 100)}%`;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+};
+
+// High scores of every local profile, plus the active player's own records
+const Leaderboard: React.FC<LeaderboardProps> = ({ profiles, activeProfile, initialMode, onClose }) => {
+  const [mode, setMode] = useState<GameMode>(initialMode);
+  const entries = leaderboard(profiles, mode);
+  const summary = summarizeProfile(activeProfile);
+  const levelBests = activeProfile.levelBests[mode];
+  const recent = activeProfile.sessions.slice(-RECENT_SESSIONS).reverse();
+
+  return (
+    <div className="absolute inset-0 bg-gray-900 bg-opacity-95 rounded-lg text-white p-6 overflow-y-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-yellow-400">Leaderboard</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded text-sm font-bold bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          Close (Esc)
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        {MODE_TABS.map(tab => (
+          <button
+            key={tab.mode}
+            onClick={() => setMode(tab.mode)}
+            className={`px-3 py-1 rounded text-sm font-bold transition-colors ${
+              tab.mode === mode ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <table className="w-full text-sm mb-4">
+        <thead>
+          <tr className="text-gray-400 text-left">
+            <th className="pr-2">#</th>
+            <th className="pr-2">Player</th>
+            <th className="pr-2 text-right">Score</th>
+            <th className="pr-2 text-right">Level</th>
+            <th className="pr-2 text-right">Accuracy</th>
+            <th className="text-right">Date</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.length === 0 && (
+            <tr><td colSpan={6} className="text-gray-500 py-2">No games in this mode yet</td></tr>
+          )}
+          {entries.map((entry, index) => (
+            <tr key={`${entry.profileId}-${entry.date}`} className={entry.profileId === activeProfile.id ? 'text-yellow-300' : ''}>
+              <td className="pr-2">{index + 1}</td>
+              <td className="pr-2">{entry.name}</td>
+              <td className="pr-2 text-right font-bold">{entry.score}</td>
+              <td className="pr-2 text-right">{entry.level}</td>
+              <td className="pr-2 text-right">{formatPercent(entry.accuracy)}</td>
+              <td className="text-right">{formatDate(entry.date)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h3 className="text-lg font-bold text-blue-400 mb-1">{activeProfile.name}</h3>
+      <p className="text-sm text-gray-300 mb-2">
+        {summary.games} games • {summary.wins} won • {summary.bricksBroken} bricks •{' '}
+        {formatDuration(summary.playTime)} played • {summary.lessonsPassed} lessons passed
+      </p>
+
+      {levelBests.length > 0 && (
+        <p className="text-sm text-gray-300 mb-2">
+          Best per level:{' '}
+          {levelBests.map((points, index) => `${LEVELS[index]?.name ?? index + 1} ${points}`).join(' • ')}
+        </p>
+      )}
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-400 text-left">
+            <th className="pr-2">Date</th>
+            <th className="pr-2">Game</th>
+            <th className="pr-2 text-right">Score</th>
+            <th className="pr-2 text-right">Level</th>
+            <th className="pr-2 text-right">Accuracy</th>
+            <th className="text-right">Reaction</th>
+          </tr>
+        </thead>
+        <tbody>
+          {recent.map(session => (
+            <tr key={session.date}>
+              <td className="pr-2">{formatDate(session.date)}</td>
+              <td className="pr-2">
+                {LESSONS.find(lesson => lesson.id === session.lessonId)?.name ?? session.mode} • {LAYOUTS[session.layoutId].name}
+                {session.won ? ' ✓' : ''}
+              </td>
+              <td className="pr-2 text-right">{session.score}</td>
+              <td className="pr-2 text-right">{session.level}</td>
+              <td className="pr-2 text-right">{formatPercent(session.accuracy)}</td>
+              <td className="text-right">{session.averageReaction === null ? '–' : `${Math.round(session.averageReaction)} ms`}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default Leaderboard;
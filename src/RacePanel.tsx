@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { DEFAULT_RELAY_URL } from './network';
+import { ATTACK_STREAK } from './engine';
+
+interface RacePanelProps {
+  status: string | null; // how joining is going, or why it failed
+  joining: boolean; // connected or connecting, waiting for the race to start
+  onJoin: (url: string, room: string) => void;
+  onClose: () => void;
+}
+
+// Joining an online race: the relay to go through and the room to meet in
+const RacePanel: React.FC<RacePanelProps> = ({ status, joining, onJoin, onClose }) => {
+  const [url, setUrl] = useState(DEFAULT_RELAY_URL);
+  const [room, setRoom] = useState('');
+
+  const valid = /^wss?:\/\/\S+$/.test(url.trim()) && room.trim().length > 0;
+
+  const join = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid || joining) return;
+    onJoin(url.trim(), room.trim());
+  };
+
+  return (
+    <div className="absolute inset-0 bg-gray-900 bg-opacity-95 rounded-lg text-white p-6 overflow-y-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-yellow-400">Online Race</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          {joining ? 'Cancel (Esc)' : 'Close (Esc)'}
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-400 mb-4">
+        Race a player on another computer: you both get the same wall, and whoever clears it first wins.
+        Every {ATTACK_STREAK} correct keys in a row push a row of bricks into the other player's wall.
+        Start the relay with <code className="text-gray-200">npm run relay</code>, then both players join the same room.
+        The race is played in letter mode with the settings of whoever opens the room.
+      </p>
+
+      <form onSubmit={join}>
+        <table className="text-sm mb-4">
+          <tbody>
+            <tr>
+              <td className="pr-4 py-1">Relay</td>
+              <td className="py-1">
+                <input
+                  value={url}
+                  onChange={e => setUrl(e.target.value)}
+                  disabled={joining}
+                  className="w-72 px-2 py-1 rounded bg-gray-700 text-white disabled:text-gray-500"
+                />
+              </td>
+            </tr>
+            <tr>
+              <td className="pr-4 py-1">Room</td>
+              <td className="py-1">
+                <input
+                  value={room}
+                  onChange={e => setRoom(e.target.value)}
+                  disabled={joining}
+                  maxLength={32}
+                  placeholder="Any name you both agree on"
+                  className="w-72 px-2 py-1 rounded bg-gray-700 text-white disabled:text-gray-500"
+                />
+              </td>
+            </tr>
+          </tbody>
+        </table>
+
+        <button
+          type="submit"
+          disabled={!valid || joining}
+          className="px-4 py-2 rounded font-bold bg-teal-600 text-white hover:bg-teal-500 disabled:bg-gray-700 disabled:text-gray-500"
+        >
+          Join
+        </button>
+      </form>
+
+      {status && <p className="text-sm text-teal-400 mt-4">{status}</p>}
+    </div>
+  );
+};
+
+export default RacePanel;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import {
+  GAMEPLAY_FIELDS,
+  GAMEPLAY_PRESETS,
+  GameplayPreset,
+  GameplaySettings,
+  GameplayValues,
+  presetValues,
+  validateGameplay
+} from './gameplay';
+
+interface SettingsPanelProps {
+  settings: GameplaySettings;
+  mobile: boolean;
+  maxCols: number; // most brick columns that fit on this screen
+  onSave: (settings: GameplaySettings) => void;
+  onClose: () => void;
+}
+
+type Field = keyof typeof GAMEPLAY_FIELDS;
+
+const FIELDS = Object.keys(GAMEPLAY_FIELDS) as Field[];
+
+const PRESET_LABELS: Record<GameplayPreset, string> = {
+  easy: 'Easy',
+  normal: 'Normal',
+  hard: 'Hard',
+  custom: 'Custom'
+};
+
+const PRESET_HINTS: Record<GameplayPreset, string> = {
+  easy: 'Slow ball, long press window, plenty of lives and the trajectory preview switched on',
+  normal: 'The game as it was designed',
+  hard: 'Fast ball, short press window and few lives',
+  custom: 'Your own values'
+};
+
+// Inputs hold text, so a field can be empty while it is being edited
+const toDraft = (values: GameplayValues): Record<Field, string> => ({
+  ballSpeed: String(values.ballSpeed),
+  letterPressWindow: String(values.letterPressWindow),
+  brickRows: String(values.brickRows),
+  brickCols: String(values.brickCols),
+  lives: String(values.lives)
+});
+
+// Presets and custom values for the gameplay constants
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, mobile, maxCols, onSave, onClose }) => {
+  const [preset, setPreset] = useState<GameplayPreset>(settings.preset);
+  const [useLevels, setUseLevels] = useState(settings.custom.useLevels);
+  const [draft, setDraft] = useState(() =>
+    toDraft(settings.preset === 'custom' ? settings.custom : presetValues(settings.preset, mobile, settings.custom)));
+
+  const values: GameplayValues = {
+    ballSpeed: Number(draft.ballSpeed),
+    letterPressWindow: Number(draft.letterPressWindow),
+    brickRows: Number(draft.brickRows),
+    brickCols: Number(draft.brickCols),
+    lives: Number(draft.lives),
+    useLevels: preset === 'custom' ? useLevels : true
+  };
+  const errors = preset === 'custom' ? validateGameplay(values, maxCols) : {};
+  const valid = Object.keys(errors).length === 0;
+
+  const choosePreset = (next: GameplayPreset) => {
+    setPreset(next);
+    if (next !== 'custom') setDraft(toDraft(presetValues(next, mobile, settings.custom)));
+  };
+
+  // Editing a value makes the settings custom, starting from the preset shown
+  const editField = (field: Field, text: string) => {
+    setPreset('custom');
+    setDraft(prev => ({ ...prev, [field]: text }));
+  };
+
+  const save = () => {
+    if (!valid) return;
+    onSave({ preset, custom: preset === 'custom' ? values : settings.custom });
+  };
+
+  return (
+    <div className="absolute inset-0 bg-gray-900 bg-opacity-95 rounded-lg text-white p-6 overflow-y-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-yellow-400">Settings</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded text-sm font-bold bg-gray-700 text-gray-300 hover:bg-gray-600"
+        >
+          Close (Esc)
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-1">
+        {[...GAMEPLAY_PRESETS, 'custom' as const].map(option => (
+          <button
+            key={option}
+            onClick={() => choosePreset(option)}
+            className={`px-3 py-1 rounded text-sm font-bold transition-colors ${
+              option === preset ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {PRESET_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-gray-400 mb-4">{PRESET_HINTS[preset]}</p>
+
+      <table className="text-sm mb-4">
+        <tbody>
+          {FIELDS.map(field => {
+            const rule = GAMEPLAY_FIELDS[field];
+            const max = field === 'brickCols' ? Math.min(rule.max, maxCols) : rule.max;
+            return (
+              <tr key={field}>
+                <td className="pr-4 py-1">{rule.label}</td>
+                <td className="pr-2 py-1">
+                  <input
+                    type="number"
+                    min={rule.min}
+                    max={max}
+                    value={draft[field]}
+                    onChange={e => editField(field, e.target.value)}
+                    className={`w-24 px-2 py-1 rounded bg-gray-700 text-white ${errors[field] ? 'ring-2 ring-red-500' : ''}`}
+                  />
+                </td>
+                <td className="pr-4 py-1 text-gray-400">{rule.unit || `${rule.min}–${max}`}</td>
+                <td className="py-1 text-red-400">{errors[field]}</td>
+              </tr>
+            );
+          })}
+          <tr>
+            <td className="pr-4 py-1">Levels</td>
+            <td className="py-1" colSpan={3}>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={values.useLevels}
+                  onChange={e => {
+                    setPreset('custom');
+                    setUseLevels(e.target.checked);
+                  }}
+                />
+                Play the level campaign (brick rows and columns only shape the wall when this is off)
+              </label>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={save}
+          disabled={!valid}
+          className="px-4 py-2 rounded font-bold bg-teal-600 text-white hover:bg-teal-500 disabled:bg-gray-700 disabled:text-gray-500"
+        >
+          Save
+        </button>
+        <span className="text-sm text-gray-400">Changes apply from the next game</span>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
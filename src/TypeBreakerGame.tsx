@@ -1,44 +1,139 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-
-interface GameState {
-  score: number;
-  lives: number;
-  gameOver: boolean;
-  gameWon: boolean;
-  paused: boolean;
-  letterMode: boolean;
-  gameStarted: boolean;
-}
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+  Ball,
+  Brick,
+  BrickType,
+  DEFAULT_CONFIG,
+  EngineConfig,
+  EngineState,
+  GameEvent,
+  GameMode,
+  KeyDef,
+  LAYOUTS,
+  LayoutId,
+  POWER_UPS,
+  PowerUpType,
+  WrongKeyPenalty,
+  advanceFixedTimestep,
+  VersusMatch,
+  charForKey,
+  createFixedTimestep,
+  createGame,
+  currentLevel,
+  describeAdaptation,
+  displayGlyph,
+  effectTimeLeft,
+  getBrickWord,
+  getTargetBrick,
+  getTargets,
+  isTypingMode,
+  isEffectActive,
+  isLockedOut,
+  isWordArmed,
+  lerp,
+  maxBrickCols,
+  predictTrajectory,
+  randomSeed,
+  setMode,
+  step,
+  systemClock
+} from './engine';
+import { LESSONS, LessonResult, evaluateLesson, lessonCharacters } from './curriculum';
+import { LEVELS } from './levels';
+import { GameReport, buildReport } from './report';
+import { keyWeightsFromHistory } from './history';
+import { profileKeyHistory, profileProgress, recordGame } from './profiles';
+import Leaderboard from './Leaderboard';
+import SettingsPanel from './SettingsPanel';
+import ControlsPanel from './ControlsPanel';
+import GamepadPanel from './GamepadPanel';
+import VirtualKeyboard, { VIRTUAL_KEYBOARD_HEIGHT } from './VirtualKeyboard';
+import { GameplaySettings, gameplayValues } from './gameplay';
+import { AudioSettings, SoundEffect, createSoundPlayer } from './sounds';
+import { InputAction, KeyBindings, actionKeysLabel } from './input';
+import { GamepadSettings, createGamepadReader } from './gamepad';
+import { PointerSettings, createPointerTracker } from './pointer';
+import RacePanel from './RacePanel';
+import { GameState, VersusHud, useHud } from './useHud';
+import { useProfiles } from './useProfiles';
+import { RACE_STATUS, useRace } from './useRace';
+import { useReplay } from './useReplay';
+import { createLocalMatch, useVersus } from './useVersus';
+import { closeOnEscape, useKeyRouter } from './useKeyRouter';
 
-interface Paddle {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  speed: number;
-}
+const sounds = createSoundPlayer();
+const gamepadReader = createGamepadReader();
 
-interface Ball {
-  x: number;
-  y: number;
-  dx: number;
-  dy: number;
-  size: number;
-  speed: number;
-}
+const MODE_LABELS: Record<GameMode, string> = {
+  letter: 'Letter Challenge',
+  word: 'Word Challenge',
+  classic: 'Classic'
+};
 
-interface Brick {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  color: string;
-  visible: boolean;
-  points: number;
-  letter: string;
-  isTarget: boolean;
-  lastKeyPressTime: number;
-}
+const PENALTY_LABELS: Record<WrongKeyPenalty, string> = {
+  none: 'Off',
+  score: 'Lose Points',
+  lockout: 'Lockout',
+  speedUp: 'Speed Up'
+};
+const PENALTY_ORDER = Object.keys(PENALTY_LABELS) as WrongKeyPenalty[];
+
+// Sounds rise by up to an octave as the streak grows to this length
+const STREAK_FOR_OCTAVE = 24;
+
+// How long a wrong key flashes its brick red and stays in the HUD
+const WRONG_KEY_FLASH_MS = 700;
+
+// Lesson list on the start screen
+const LESSON_MENU_TOP = 160;
+const LESSON_MENU_ROW_HEIGHT = 32;
+
+// How long the "Level N" banner stays up when a level starts
+const LEVEL_BANNER_MS = 2000;
+
+// Post-game keyboard heatmap: distance between keys and how far each row is
+// shifted right, like on a real keyboard
+const HEATMAP_KEY_PITCH = 46;
+const HEATMAP_ROW_OFFSETS = [0, 23, 34, 57];
+
+// Small mark in the top left corner telling special bricks apart
+const BRICK_MARKS: Partial<Record<BrickType, string>> = {
+  explosive: '✸',
+  morph: '↻'
+};
+
+// Highlight of each ball's target brick and prompt, picked by ball id so a
+// ball keeps its color while it is in play
+const TARGET_COLORS = ['#FFFF00', '#FF9FF3', '#4ECDC4', '#FF8C42'];
+const targetColor = (ball: Ball) => TARGET_COLORS[ball.id % TARGET_COLORS.length];
+
+// How each power-up looks on its capsule and in the HUD
+const POWER_UP_STYLES: Record<PowerUpType, { label: string; color: string }> = {
+  widePaddle: { label: '⟷ Wide', color: '#4ECDC4' },
+  slowBall: { label: '◷ Slow', color: '#9AD0EC' },
+  multiBall: { label: '⁂ Multi', color: '#FECA57' },
+  extraLife: { label: '♥ Life', color: '#FF6B6B' },
+  stickyPaddle: { label: '◉ Sticky', color: '#7CFC9A' },
+  shield: { label: '⛨ Shield', color: '#C678DD' }
+};
+
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const formatReplayTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Two players: player 1 on the left half with the left hand
+const PLAYER_NAMES = ['Player 1', 'Player 2'];
+const PLAYER_COLORS = ['#4ECDC4', '#FF9FF3'];
+
+// Order in which the mode key cycles through the modes
+const NEXT_MODE: Record<GameMode, GameMode> = {
+  letter: 'word',
+  word: 'classic',
+  classic: 'letter'
+};
 
 interface Particle {
   x: number;
@@ -49,81 +144,235 @@ interface Particle {
   color: string;
   life: number;
   maxLife: number;
-  decay: number;
-  gravity: number;
+  decay: number; // life lost per second
+  gravity: number; // pixels per second squared
 }
 
+// Text floating up from where something happened, like a combo or a bonus
+interface Callout {
+  text: string;
+  x: number;
+  y: number;
+  color: string;
+  size: number; // font size in pixels
+  life: number; // 1 when shown, fading out at 0
+}
+
+// Callouts fade out over this many seconds while rising this fast
+const CALLOUT_SECONDS = 1.2;
+const CALLOUT_RISE = 40; // pixels per second
+// A lost streak is called out only when it was at least this long
+const CALLOUT_MIN_LOST_STREAK = 5;
+
 interface Star {
   x: number;
   y: number;
   size: number;
-  speed: number;
+  speed: number; // pixels per second
   opacity: number;
 }
 
 const TypeBreakerGame: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameLoopRef = useRef<number | null>(null);
-  const keysRef = useRef<Record<string, boolean>>({});
+  const lastFrameTimeRef = useRef<number | null>(null);
+  const timestepRef = useRef(createFixedTimestep());
+  
+  // The player's saved profile; settings, records and progress live there
+  const {
+    profile,
+    profiles,
+    saveProfile,
+    changeSettings,
+    switchProfile,
+    addProfile,
+    downloadProfile,
+    uploadProfile
+  } = useProfiles(next => {
+    setLessonIndex(null);
+    setHudMode(next.settings.mode);
+  });
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showControls, setShowControls] = useState(false);
+  const [showGamepad, setShowGamepad] = useState(false);
+  const [showRace, setShowRace] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
   
-  const [gameState, setGameState] = useState<GameState>({
-    score: 0,
-    lives: 10,
-    gameOver: false,
-    gameWon: false,
-    paused: false,
-    letterMode: true, // true = letter mode, false = classic mode
-    gameStarted: false
+  const {
+    gameState,
+    startHud,
+    syncHud,
+    syncVersusHud,
+    setHudMode,
+    togglePause,
+    stopHud,
+    showStartScreen
+  } = useHud(profile.settings.mode);
+  
+  // Both games of a two-player match; engineRef then shows player 1's
+  const { currentMatch, setMatch, typeForPlayer, advanceMatch } = useVersus();
+  
+  const {
+    raceView,
+    inRace,
+    joinRace,
+    leaveRace,
+    reportFinish,
+    reportProgress,
+    takeAttacks,
+    sendAttacks
+  } = useRace({
+    onStart: start => {
+      // Both players build the same wall from the seed the relay dealt
+      const engine = createGame(start.config, start.seed, 'letter');
+      showEngine(engine);
+      record(null);
+      setLessonIndex(null);
+      setShowRace(false);
+      startHud(engine.lives, 'letter');
+    },
+    onAttack: rows => {
+      addCallout(rows > 1 ? `${rows} rows incoming!` : 'Row incoming!', CANVAS_WIDTH / 2, 140, '#FF6B6B', 24);
+    },
+    onDecided: stopHud
+  });
+  
+  const {
+    replayView,
+    record,
+    recordStep,
+    recordMode,
+    lastRecording,
+    watching,
+    startReplay,
+    seekTo,
+    toggleReplay,
+    setReplaySpeed,
+    stopReplay,
+    advanceReplay,
+    replayKey,
+    downloadReplay,
+    uploadReplay
+  } = useReplay({
+    onStart: player => {
+      leaveRace();
+      showEngine(player.state);
+      setLessonIndex(null);
+      setShowLeaderboard(false);
+      startHud(player.state.lives, player.recording.mode);
+    },
+    onSeek: engine => {
+      engineRef.current = engine;
+      particlesRef.current = [];
+      calloutsRef.current = [];
+      levelBannerRef.current = null;
+      setGameReport(engine.gameOver || engine.gameWon ? buildReport(engine.stats, layout) : null);
+      syncHud(engine);
+    },
+    onStop: () => {
+      setGameReport(null);
+      showStartScreen(profile.settings.mode);
+    }
   });
 
-  const [pressedKeys, setPressedKeys] = useState<Set<string>>(new Set());
-  const [targetBrick, setTargetBrick] = useState<Brick | null>(null);
-  const [showLetterHint, setShowLetterHint] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
   const [canvasScale, setCanvasScale] = useState(1);
+  // The ball is in the player's hands: not paused, over or a replay
+  const playing = gameState.gameStarted && !gameState.paused && !gameState.gameOver && !gameState.gameWon && !replayView;
+  const {
+    layoutId,
+    adaptive,
+    trajectoryPreview,
+    virtualKeyboard,
+    wrongKeyPenalty,
+    audio,
+    bindings,
+    gamepad,
+    pointer
+  } = profile.settings;
+  // Phones type on the screen instead of tapping target bricks
+  const onScreenTyping = isMobile && virtualKeyboard;
+  const showVirtualKeyboard = onScreenTyping && isTypingMode(gameState.mode) &&
+    gameState.gameStarted && !gameState.gameOver && !gameState.gameWon && !replayView;
+  // A replay is drawn with the layout it was recorded on, a race with the host's
+  const layout = LAYOUTS[replayView?.layoutId ?? raceView?.layoutId ?? layoutId];
+  const [lessonIndex, setLessonIndex] = useState<number | null>(null); // null = free play
+  const progress = useMemo(() => profileProgress(profile, layoutId), [profile, layoutId]);
+  const [lessonResult, setLessonResult] = useState<LessonResult | null>(null);
+  const [gameReport, setGameReport] = useState<GameReport | null>(null);
+  const keyWeights = useMemo(() => keyWeightsFromHistory(profileKeyHistory(profile, layoutId)), [profile, layoutId]);
   
   // Store particles in a ref for smooth animation
   const particlesRef = useRef<Particle[]>([]);
+  const calloutsRef = useRef<Callout[]>([]);
   
   // Store background stars for smooth animation
   const starsRef = useRef<Star[]>([]);
 
+  // Input collected between engine steps
+  const pendingLettersRef = useRef<string[]>([]);
+  const paddleShiftRef = useRef(0);
+  const pointerRef = useRef(createPointerTracker()); // where the mouse or a finger wants the paddle
+  const dragPointerRef = useRef<number | null>(null); // the finger or pen dragging the paddle
+
+  // Points scored within each level of the current game
+  const levelScoresRef = useRef<number[]>([]);
+  const levelStartScoreRef = useRef(0);
+
+  // The last wrong key in letter mode, and the target it missed
+  const wrongKeyRef = useRef<{ brickId: number; typed: string; expected: string; at: number } | null>(null);
+
+  // Name of the level just reached and when its banner goes away
+  const levelBannerRef = useRef<{ text: string; until: number } | null>(null);
+
   // Game constants - different sizes for mobile
-  const CANVAS_WIDTH = 800;
-  const CANVAS_HEIGHT = 600;
+  const CANVAS_WIDTH = DEFAULT_CONFIG.width;
+  const CANVAS_HEIGHT = DEFAULT_CONFIG.height;
   const PADDLE_WIDTH = isMobile ? 150 : 100;
   const PADDLE_HEIGHT = isMobile ? 25 : 15;
   const BALL_SIZE = isMobile ? 20 : 12;
-  const BALL_SPEED = 4; // ← ИЗМЕНЯЙ ЭТО ЗНАЧЕНИЕ ДЛЯ ОТЛАДКИ СКОРОСТИ ШАРИКА
   const BRICK_WIDTH = isMobile ? 120 : 72;
   const BRICK_HEIGHT = isMobile ? 45 : 25;
-  const BRICK_ROWS = isMobile ? 4 : 6;
-  const BRICK_COLS = isMobile ? 6 : 10;
-  const LETTER_PRESS_WINDOW = isMobile ? 1000 : 500; // milliseconds before ball hits block (longer for mobile)
-
-  // Game objects
-  const gameObjects = useRef<{
-    paddle: Paddle;
-    ball: Ball;
-    bricks: Brick[];
-  }>({
-    paddle: {
-      x: CANVAS_WIDTH / 2 - (isMobile ? 75 : 50),
-      y: CANVAS_HEIGHT - 40,
-      width: isMobile ? 150 : 100,
-      height: isMobile ? 25 : 15,
-      speed: 8
-    },
-    ball: {
-      x: CANVAS_WIDTH / 2,
-      y: CANVAS_HEIGHT - 150, // Closer to paddle
-      dx: BALL_SPEED,
-      dy: -BALL_SPEED,
-      size: isMobile ? 20 : 12,
-      speed: BALL_SPEED
-    },
-    bricks: []
-  });
+  const WORD_PRESS_WINDOW = isMobile ? 4000 : 3000; // how long a typed word stays armed
+  
+  // Ball speed, press window, wall size and lives come from the settings screen
+  const maxCols = maxBrickCols(CANVAS_WIDTH, BRICK_WIDTH);
+  const gameplay = useMemo(
+    () => gameplayValues(profile.settings.gameplay, isMobile, maxCols),
+    [profile.settings.gameplay, isMobile, maxCols]
+  );
+
+  const engineConfig = useMemo<EngineConfig>(() => ({
+    ...DEFAULT_CONFIG,
+    paddleWidth: PADDLE_WIDTH,
+    paddleHeight: PADDLE_HEIGHT,
+    ballSize: BALL_SIZE,
+    ballSpeed: gameplay.ballSpeed,
+    brickWidth: BRICK_WIDTH,
+    brickHeight: BRICK_HEIGHT,
+    brickRows: gameplay.brickRows,
+    brickCols: gameplay.brickCols,
+    letterPressWindow: gameplay.letterPressWindow,
+    wordPressWindow: WORD_PRESS_WINDOW,
+    lives: gameplay.lives,
+    characters: layout.letters,
+    words: layout.words,
+    levels: gameplay.useLevels ? LEVELS : [],
+    adaptive,
+    keyWeights,
+    wrongKeyPenalty
+  }), [PADDLE_WIDTH, PADDLE_HEIGHT, BALL_SIZE, BRICK_WIDTH, BRICK_HEIGHT, WORD_PRESS_WINDOW, gameplay, layout, adaptive, keyWeights, wrongKeyPenalty]);
+
+  useEffect(() => {
+    sounds.setSettings(audio);
+  }, [audio]);
+
+  // The simulation itself; the component only feeds it input and draws it.
+  // The placeholder game is built on the first render only.
+  const [initialEngine] = useState(() => createGame(DEFAULT_CONFIG, randomSeed()));
+  const engineRef = useRef<EngineState>(initialEngine);
 
   // Initialize background stars
   const initializeStars = useCallback((): Star[] => {
@@ -133,53 +382,22 @@ const TypeBreakerGame: React.FC = () => {
         x: Math.random() * CANVAS_WIDTH,
         y: Math.random() * CANVAS_HEIGHT,
         size: Math.random() * 2 + 0.5,
-        speed: Math.random() * 0.3 + 0.1,
+        speed: Math.random() * 18 + 6,
         opacity: Math.random() * 0.8 + 0.2
       });
     }
     return stars;
   }, []);
-  // Initialize bricks
-  const initializeBricks = useCallback((): Brick[] => {
-    const bricks: Brick[] = [];
-    const colors = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FECA57', '#FF9FF3'];
-    const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-    
-    // Create a shuffled array of letters
-    const shuffledLetters = [...letters].sort(() => Math.random() - 0.5);
-    
-    // Calculate spacing to fit all bricks perfectly
-    const totalBrickWidth = BRICK_COLS * BRICK_WIDTH;
-    const totalSpacing = CANVAS_WIDTH - totalBrickWidth;
-    const spacing = totalSpacing / (BRICK_COLS + 1);
-    
-    for (let row = 0; row < BRICK_ROWS; row++) {
-      for (let col = 0; col < BRICK_COLS; col++) {
-        const letterIndex = (row * BRICK_COLS + col) % shuffledLetters.length;
-        bricks.push({
-          x: spacing + col * (BRICK_WIDTH + spacing),
-          y: row * (BRICK_HEIGHT + 5) + 70, // Changed from 60 to 70 (+10 pixels)
-          width: BRICK_WIDTH,
-          height: BRICK_HEIGHT,
-          color: colors[row],
-          visible: true,
-          points: (BRICK_ROWS - row) * 10,
-          letter: shuffledLetters[letterIndex],
-          isTarget: false,
-          lastKeyPressTime: 0
-        });
-      }
-    }
-    return bricks;
-  }, [BRICK_COLS, BRICK_WIDTH, BRICK_HEIGHT, BRICK_ROWS]);
 
   // Create explosion particles
-  const createExplosion = useCallback((brick: Brick) => {
-    const particleCount = 12;
-    
+  const createExplosion = useCallback((
+    brick: Pick<Brick, 'x' | 'y' | 'width' | 'height' | 'color'>,
+    particleCount = 12,
+    color = brick.color
+  ) => {
     for (let i = 0; i < particleCount; i++) {
       const angle = (i / particleCount) * Math.PI * 2 + (Math.random() - 0.5) * 0.5;
-      const speed = 3 + Math.random() * 4;
+      const speed = 180 + Math.random() * 240;
       
       particlesRef.current.push({
         x: brick.x + brick.width / 2,
@@ -187,33 +405,34 @@ const TypeBreakerGame: React.FC = () => {
         dx: Math.cos(angle) * speed,
         dy: Math.sin(angle) * speed,
         size: 2 + Math.random() * 3,
-        color: brick.color,
+        color,
         life: 1.0,
         maxLife: 1.0,
-        decay: 0.008 + Math.random() * 0.004,
-        gravity: 0.1
+        decay: 0.48 + Math.random() * 0.24,
+        gravity: 360
       });
     }
   }, []);
 
   // Update particles
-  const updateParticles = useCallback(() => {
+  const updateParticles = useCallback((dt: number) => {
     for (let i = particlesRef.current.length - 1; i >= 0; i--) {
       const particle = particlesRef.current[i];
       
       // Update position
-      particle.x += particle.dx;
-      particle.y += particle.dy;
+      particle.x += particle.dx * dt;
+      particle.y += particle.dy * dt;
       
       // Apply gravity
-      particle.dy += particle.gravity;
+      particle.dy += particle.gravity * dt;
       
       // Apply air resistance
-      particle.dx *= 0.98;
-      particle.dy *= 0.98;
+      const drag = Math.pow(0.3, dt);
+      particle.dx *= drag;
+      particle.dy *= drag;
       
       // Update life
-      particle.life -= particle.decay;
+      particle.life -= particle.decay * dt;
       
       // Remove dead particles
       if (particle.life <= 0) {
@@ -222,10 +441,22 @@ const TypeBreakerGame: React.FC = () => {
     }
   }, []);
 
+  const addCallout = useCallback((text: string, x: number, y: number, color: string, size = 20) => {
+    calloutsRef.current.push({ text, x, y, color, size, life: 1 });
+  }, []);
+  
+  const updateCallouts = useCallback((dt: number) => {
+    calloutsRef.current.forEach(callout => {
+      callout.y -= CALLOUT_RISE * dt;
+      callout.life -= dt / CALLOUT_SECONDS;
+    });
+    calloutsRef.current = calloutsRef.current.filter(callout => callout.life > 0);
+  }, []);
+
   // Update background stars
-  const updateStars = useCallback(() => {
+  const updateStars = useCallback((dt: number) => {
     starsRef.current.forEach(star => {
-      star.y += star.speed;
+      star.y += star.speed * dt;
       
       // Reset star position when it goes off screen
       if (star.y > CANVAS_HEIGHT) {
@@ -235,58 +466,79 @@ const TypeBreakerGame: React.FC = () => {
     });
   }, []);
 
-  // Generate random initial ball velocity
-  const getRandomBallVelocity = () => {
-    // Random angle between -45 and 45 degrees from vertical
-    const minAngle = -Math.PI / 4; // -45 degrees
-    const maxAngle = Math.PI / 4;  // 45 degrees
-    const angle = minAngle + Math.random() * (maxAngle - minAngle);
-    
-    const speed = BALL_SPEED;
-    return {
-      dx: Math.sin(angle) * speed,
-      dy: -Math.cos(angle) * speed // Negative to go upward
+  // Engine config for free play, or restricted to the keys of a lesson
+  const configForLesson = useCallback((index: number | null): EngineConfig =>
+    index === null ? engineConfig : { ...engineConfig, characters: lessonCharacters(layout, index) },
+  [engineConfig, layout]);
+
+  // Put the name of the level being played on screen for a moment
+  const showLevelBanner = useCallback((engine: EngineState) => {
+    const level = currentLevel(engine);
+    levelBannerRef.current = level && {
+      text: `Level ${engine.levelIndex + 1}: ${level.name}`,
+      until: systemClock.now() + LEVEL_BANNER_MS
     };
-  };
+  }, []);
 
-  // Reset game
-  const resetGame = useCallback(() => {
-    gameObjects.current.paddle.x = CANVAS_WIDTH / 2 - PADDLE_WIDTH / 2;
-    gameObjects.current.paddle.width = PADDLE_WIDTH;
-    gameObjects.current.paddle.height = PADDLE_HEIGHT;
-    gameObjects.current.ball.x = CANVAS_WIDTH / 2;
-    gameObjects.current.ball.y = CANVAS_HEIGHT - 150; // Closer to paddle
-    gameObjects.current.ball.size = BALL_SIZE;
-    const { dx, dy } = getRandomBallVelocity();
-    gameObjects.current.ball.dx = dx;
-    gameObjects.current.ball.dy = dy;
-    gameObjects.current.bricks = initializeBricks();
+  // Show a new engine game and clear everything drawn on top of the old one.
+  // A two-player match shows player 1's game.
+  const showEngine = useCallback((engine: EngineState, match: VersusMatch | null = null) => {
+    engineRef.current = engine;
+    setMatch(match);
+    pendingLettersRef.current = [];
+    paddleShiftRef.current = 0;
+    pointerRef.current.release();
+    levelScoresRef.current = [];
+    levelStartScoreRef.current = 0;
     particlesRef.current = [];
+    calloutsRef.current = [];
+    wrongKeyRef.current = null;
+    showLevelBanner(engineRef.current);
     starsRef.current = initializeStars();
-    setGameState({
-      score: 0,
-      lives: 10,
-      gameOver: false,
-      gameWon: false,
-      paused: false,
-      letterMode: gameState.letterMode, // Keep current mode when resetting
-      gameStarted: true // Keep the game started after reset
-    });
-  }, [initializeBricks, initializeStars, gameState.letterMode, PADDLE_WIDTH, PADDLE_HEIGHT, BALL_SIZE, BALL_SPEED]);
+    setLessonResult(null);
+    setGameReport(null);
+  }, [initializeStars, showLevelBanner, setMatch]);
+
+  // Start a fresh engine game and record it
+  const newGame = useCallback((mode: GameMode, config: EngineConfig) => {
+    const engine = createGame(config, randomSeed(), mode);
+    leaveRace();
+    showEngine(engine);
+    record(engine, layoutId);
+  }, [showEngine, leaveRace, record, layoutId]);
+
+  // Start over, in free play or in the given lesson
+  const restartGame = useCallback((index: number | null) => {
+    // Lessons are about typing, so they never run in classic mode
+    const mode = index !== null && !isTypingMode(gameState.mode) ? 'letter' : gameState.mode;
+    setLessonIndex(index);
+    newGame(mode, configForLesson(index));
+    startHud(engineConfig.lives, mode);
+  }, [newGame, configForLesson, startHud, engineConfig, gameState.mode]);
+
+  // Two players at one keyboard
+  const startVersus = useCallback(() => {
+    const match = createLocalMatch(engineConfig, layout);
+    leaveRace();
+    showEngine(match.players[0], match);
+    record(null);
+    setLessonIndex(null);
+    startHud(engineConfig.lives, 'letter', match);
+  }, [engineConfig, layout, showEngine, leaveRace, record, startHud]);
+
+  // Reset game; a two-player match starts a rematch
+  const resetGame = useCallback(() => {
+    if (currentMatch()) {
+      startVersus();
+    } else {
+      restartGame(lessonIndex);
+    }
+  }, [restartGame, startVersus, currentMatch, lessonIndex]);
 
   // Start game function
   const startGame = useCallback(() => {
-    gameObjects.current.paddle.width = PADDLE_WIDTH;
-    gameObjects.current.paddle.height = PADDLE_HEIGHT;
-    gameObjects.current.paddle.x = CANVAS_WIDTH / 2 - PADDLE_WIDTH / 2;
-    gameObjects.current.ball.size = BALL_SIZE;
-    gameObjects.current.bricks = initializeBricks();
-    starsRef.current = initializeStars();
-    const { dx, dy } = getRandomBallVelocity();
-    gameObjects.current.ball.dx = dx;
-    gameObjects.current.ball.dy = dy;
-    setGameState(prev => ({ ...prev, gameStarted: true }));
-  }, [initializeBricks, initializeStars, PADDLE_WIDTH, PADDLE_HEIGHT, BALL_SIZE, BALL_SPEED]);
+    restartGame(lessonIndex);
+  }, [restartGame, lessonIndex]);
 
   // Draw functions
   const drawBackground = (ctx: CanvasRenderingContext2D) => {
@@ -310,44 +562,160 @@ const TypeBreakerGame: React.FC = () => {
     });
   };
 
-  const drawPaddle = (ctx: CanvasRenderingContext2D) => {
-    const paddle = gameObjects.current.paddle;
+  const drawPaddle = (ctx: CanvasRenderingContext2D, engine: EngineState, alpha: number) => {
+    const { paddle } = engine;
+    const x = lerp(paddle.prevX, paddle.x, alpha);
     
     // Gradient for paddle
-    const gradient = ctx.createLinearGradient(paddle.x, paddle.y, paddle.x, paddle.y + paddle.height);
+    const gradient = ctx.createLinearGradient(x, paddle.y, x, paddle.y + paddle.height);
     gradient.addColorStop(0, '#FF6B6B');
     gradient.addColorStop(1, '#E55555');
     
     ctx.fillStyle = gradient;
-    ctx.fillRect(paddle.x, paddle.y, paddle.width, paddle.height);
+    ctx.fillRect(x, paddle.y, paddle.width, paddle.height);
     
     // Add glow effect
     ctx.shadowColor = '#FF6B6B';
     ctx.shadowBlur = 10;
-    ctx.fillRect(paddle.x, paddle.y, paddle.width, paddle.height);
+    ctx.fillRect(x, paddle.y, paddle.width, paddle.height);
     ctx.shadowBlur = 0;
+    
+    // A sticky paddle gets a green top, a shield a line under the paddle
+    if (isEffectActive(engine, 'stickyPaddle')) {
+      ctx.fillStyle = POWER_UP_STYLES.stickyPaddle.color;
+      ctx.fillRect(x, paddle.y, paddle.width, 3);
+    }
+    if (isEffectActive(engine, 'shield')) {
+      ctx.strokeStyle = POWER_UP_STYLES.shield.color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(x - 10, paddle.y + paddle.height + 6);
+      ctx.lineTo(x + paddle.width + 10, paddle.y + paddle.height + 6);
+      ctx.stroke();
+    }
   };
 
-  const drawBall = (ctx: CanvasRenderingContext2D) => {
-    const ball = gameObjects.current.ball;
+  // Faint dashed path of the first ball up to the brick it will hit next
+  const drawTrajectory = (ctx: CanvasRenderingContext2D, engine: EngineState, alpha: number) => {
+    const ball = engine.balls[0];
+    if (!ball) return;
+    const { brick, path } = predictTrajectory(engine, ball);
     
-    // Gradient for ball
-    const gradient = ctx.createRadialGradient(ball.x, ball.y, 0, ball.x, ball.y, ball.size);
-    gradient.addColorStop(0, '#FECA57');
-    gradient.addColorStop(1, '#FF9FF3');
-    
-    ctx.fillStyle = gradient;
+    ctx.save();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 8]);
     ctx.beginPath();
-    ctx.arc(ball.x, ball.y, ball.size, 0, Math.PI * 2);
-    ctx.fill();
+    ctx.moveTo(lerp(ball.prevX, ball.x, alpha), lerp(ball.prevY, ball.y, alpha));
+    path.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+    ctx.stroke();
     
-    // Add glow effect
-    ctx.shadowColor = '#FECA57';
-    ctx.shadowBlur = 15;
-    ctx.fill();
-    ctx.shadowBlur = 0;
+    // Ghost of the ball where it meets the brick
+    if (brick) {
+      const end = path[path.length - 1];
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      ctx.arc(end.x, end.y, ball.size, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.restore();
   };
 
+  const drawBalls = (ctx: CanvasRenderingContext2D, engine: EngineState, alpha: number) => {
+    // With several balls in play each is ringed in the color of its target
+    const ringed = isTypingMode(engine.mode) && engine.balls.length > 1;
+    engine.balls.forEach(ball => {
+      const x = lerp(ball.prevX, ball.x, alpha);
+      const y = lerp(ball.prevY, ball.y, alpha);
+      
+      // Gradient for ball
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, ball.size);
+      gradient.addColorStop(0, '#FECA57');
+      gradient.addColorStop(1, '#FF9FF3');
+      
+      ctx.fillStyle = gradient;
+      ctx.beginPath();
+      ctx.arc(x, y, ball.size, 0, Math.PI * 2);
+      ctx.fill();
+      
+      // Add glow effect
+      ctx.shadowColor = '#FECA57';
+      ctx.shadowBlur = 15;
+      ctx.fill();
+      ctx.shadowBlur = 0;
+      
+      if (ringed && ball.targetId !== null) {
+        ctx.strokeStyle = targetColor(ball);
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(x, y, ball.size + 3, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    });
+  };
+  
+  // Falling power-up capsules: a rounded pill in the power-up's color
+  const drawCapsules = (ctx: CanvasRenderingContext2D, engine: EngineState, alpha: number) => {
+    engine.capsules.forEach(capsule => {
+      const { label, color } = POWER_UP_STYLES[capsule.type];
+      const y = lerp(capsule.prevY, capsule.y, alpha);
+      const radius = capsule.height / 2;
+      
+      ctx.save();
+      ctx.fillStyle = color;
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 8;
+      ctx.beginPath();
+      ctx.arc(capsule.x + radius, y + radius, radius, Math.PI / 2, Math.PI * 1.5);
+      ctx.arc(capsule.x + capsule.width - radius, y + radius, radius, -Math.PI / 2, Math.PI / 2);
+      ctx.closePath();
+      ctx.fill();
+      ctx.shadowBlur = 0;
+      
+      // Just the icon fits on the capsule
+      ctx.fillStyle = '#1a1a2e';
+      ctx.font = 'bold 11px Arial';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(label.split(' ')[0], capsule.x + capsule.width / 2, y + radius + 1);
+      ctx.restore();
+    });
+  };
+  
+  // Running power-ups under the score, each with a bar of the time it has left
+  const drawPowerUpHud = (ctx: CanvasRenderingContext2D) => {
+    const engine = engineRef.current;
+    let y = 44;
+    (Object.keys(POWER_UPS) as PowerUpType[]).forEach(powerUp => {
+      const { duration } = POWER_UPS[powerUp];
+      if (duration === null || !isEffectActive(engine, powerUp)) return;
+      const { label, color } = POWER_UP_STYLES[powerUp];
+      
+      ctx.fillStyle = color;
+      ctx.font = '13px Arial';
+      ctx.fillText(label, 20, y + 10);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+      ctx.fillRect(90, y + 2, 80, 8);
+      ctx.fillStyle = color;
+      ctx.fillRect(90, y + 2, 80 * effectTimeLeft(engine, powerUp) / duration, 8);
+      y += 16;
+    });
+  };
+
+  const drawCallouts = (ctx: CanvasRenderingContext2D) => {
+    ctx.save();
+    ctx.textAlign = 'center';
+    calloutsRef.current.forEach(callout => {
+      ctx.globalAlpha = Math.min(1, callout.life * 2);
+      ctx.fillStyle = callout.color;
+      ctx.font = `bold ${callout.size}px Arial`;
+      ctx.shadowColor = callout.color;
+      ctx.shadowBlur = 8;
+      ctx.fillText(callout.text, callout.x, callout.y);
+    });
+    ctx.restore();
+  };
+  
   const drawParticles = (ctx: CanvasRenderingContext2D) => {
     particlesRef.current.forEach(particle => {
       ctx.save();
@@ -369,47 +737,134 @@ const TypeBreakerGame: React.FC = () => {
     });
   };
 
-  const drawBricks = (ctx: CanvasRenderingContext2D) => {
-    gameObjects.current.bricks.forEach(brick => {
+  // Letter on a brick as the player sees it; shift bricks are marked with ⇧
+  const brickLabel = (brick: Brick) => (brick.type === 'shift' ? '⇧' : '') + displayGlyph(layout, brick.letter);
+  
+  // The key to press for a target brick, as the HUD spells it out
+  const targetHint = (brick: Brick) => `${brick.type === 'shift' ? 'Shift + ' : ''}${displayGlyph(layout, brick.letter)}`;
+  
+  // Cracks spread across a brick as it loses hit points
+  const drawCracks = (ctx: CanvasRenderingContext2D, brick: Brick) => {
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.lineWidth = 1.5;
+    for (let crack = 0; crack < brick.maxHp - brick.hp; crack++) {
+      // Each crack starts at its own spot on the top edge and zigzags down
+      const seed = brick.id * 7 + crack * 13;
+      let x = brick.x + brick.width * (0.1 + ((seed * 37) % 80) / 100);
+      ctx.beginPath();
+      ctx.moveTo(x, brick.y);
+      for (let segment = 1; segment <= 3; segment++) {
+        x += ((seed + segment) % 2 === 0 ? 1 : -1) * brick.width * 0.08;
+        ctx.lineTo(x, brick.y + brick.height * segment / 3);
+      }
+      ctx.stroke();
+    }
+  };
+  
+  const drawBricks = (ctx: CanvasRenderingContext2D, engine: EngineState) => {
+    const targets = getTargets(engine);
+    engine.bricks.forEach(brick => {
       if (brick.visible) {
-        // Gradient for brick
+        // Gradient for brick; steel gets a metallic sheen
         const gradient = ctx.createLinearGradient(brick.x, brick.y, brick.x, brick.y + brick.height);
-        gradient.addColorStop(0, brick.color);
-        gradient.addColorStop(1, brick.color + '88');
+        if (brick.type === 'steel') {
+          gradient.addColorStop(0, '#E0E5EC');
+          gradient.addColorStop(0.5, brick.color);
+          gradient.addColorStop(1, '#4A5568');
+        } else {
+          gradient.addColorStop(0, brick.color);
+          gradient.addColorStop(1, brick.color + '88');
+        }
         
         ctx.fillStyle = gradient;
         ctx.fillRect(brick.x, brick.y, brick.width, brick.height);
         
-        // Add border
-        ctx.strokeStyle = '#ffffff';
-        ctx.lineWidth = 1;
+        // Add border; explosive bricks pulse red
+        const pulse = 0.5 + 0.5 * Math.sin(systemClock.now() / 150);
+        ctx.strokeStyle = brick.type === 'explosive' ? `rgba(255, ${Math.round(80 * pulse)}, 0, 1)` : '#ffffff';
+        ctx.lineWidth = brick.type === 'explosive' ? 2 : 1;
         ctx.strokeRect(brick.x, brick.y, brick.width, brick.height);
         
-        // Draw letter in center of brick only in letter mode
-        if (gameState.letterMode) {
-          ctx.fillStyle = '#ffffff';
+        // Rivets in the corners of steel bricks
+        if (brick.type === 'steel') {
+          ctx.fillStyle = '#2D3748';
+          [[4, 4], [brick.width - 4, 4], [4, brick.height - 4], [brick.width - 4, brick.height - 4]].forEach(([dx, dy]) => {
+            ctx.beginPath();
+            ctx.arc(brick.x + dx, brick.y + dy, 1.5, 0, Math.PI * 2);
+            ctx.fill();
+          });
+        }
+        
+        const mark = BRICK_MARKS[brick.type];
+        if (mark) {
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+          ctx.font = 'bold 11px Arial';
+          ctx.textAlign = 'left';
+          ctx.textBaseline = 'top';
+          ctx.fillText(mark, brick.x + 3, brick.y + 2);
+        }
+        
+        // Bricks that take several hits crack and show how many are left
+        if (brick.maxHp > 1) {
+          drawCracks(ctx, brick);
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+          ctx.font = 'bold 10px Arial';
+          ctx.textAlign = 'right';
+          ctx.textBaseline = 'top';
+          ctx.fillText(`${brick.hp}`, brick.x + brick.width - 3, brick.y + 2);
+        }
+        
+        const word = getBrickWord(engine, brick);
+        const typed = word !== null && word.brickIds.indexOf(brick.id) < word.typed;
+        
+        // Draw letter in center of brick only in typing modes
+        if (isTypingMode(engine.mode) && brick.letter) {
+          // Letters already typed in word mode turn green
+          ctx.fillStyle = typed ? '#7CFC9A' : '#ffffff';
           ctx.font = 'bold 16px Arial';
           ctx.textAlign = 'center';
           ctx.textBaseline = 'middle';
           ctx.fillText(
-            brick.letter,
+            brickLabel(brick),
             brick.x + brick.width / 2,
             brick.y + brick.height / 2
           );
         }
         
-        // Highlight target brick only in letter mode
-        if (gameState.letterMode && brick.isTarget) {
-          ctx.strokeStyle = '#FFFF00';
+        // Highlight each ball's target brick (its whole word in word mode) in
+        // the ball's color, only in typing modes
+        const aimedBy = targets.find(target => target.brick.id === brick.id ||
+          (word !== null && target.brick.wordId === word.id));
+        if (isTypingMode(engine.mode) && aimedBy) {
+          const color = targetColor(aimedBy.ball);
+          ctx.strokeStyle = color;
           ctx.lineWidth = 3;
           ctx.strokeRect(brick.x - 2, brick.y - 2, brick.width + 4, brick.height + 4);
           
           // Add pulsing glow effect
-          ctx.shadowColor = '#FFFF00';
+          ctx.shadowColor = color;
           ctx.shadowBlur = 10;
           ctx.strokeRect(brick.x - 2, brick.y - 2, brick.width + 4, brick.height + 4);
           ctx.shadowBlur = 0;
         }
+        
+        // The target a wrong key was pressed for flashes red
+        const wrongKey = wrongKeyRef.current;
+        const sinceWrongKey = wrongKey && wrongKey.brickId === brick.id ? systemClock.now() - wrongKey.at : Infinity;
+        if (sinceWrongKey < WRONG_KEY_FLASH_MS) {
+          ctx.fillStyle = `rgba(255, 60, 60, ${0.6 * (1 - sinceWrongKey / WRONG_KEY_FLASH_MS)})`;
+          ctx.fillRect(brick.x, brick.y, brick.width, brick.height);
+        }
+        
+        // A completed word glows green until the ball arrives
+        if (word && isWordArmed(engine, word)) {
+          ctx.strokeStyle = '#7CFC9A';
+          ctx.lineWidth = 2;
+          ctx.shadowColor = '#7CFC9A';
+          ctx.shadowBlur = 12;
+          ctx.strokeRect(brick.x - 1, brick.y - 1, brick.width + 2, brick.height + 2);
+          ctx.shadowBlur = 0;
+        }
       }
     });
     
@@ -418,6 +873,270 @@ const TypeBreakerGame: React.FC = () => {
     ctx.textBaseline = 'alphabetic';
   };
 
+  // Lesson list on the start screen: free play first, then the curriculum
+  const drawLessonMenu = (ctx: CanvasRenderingContext2D) => {
+    const items = [
+      { name: 'Free Play', keys: layout.letters, locked: false, best: undefined as LessonResult | undefined },
+      ...LESSONS.map((lesson, index) => ({
+        name: `${index + 1}. ${lesson.name}`,
+        keys: lesson.newKeys(layout),
+        locked: index >= progress.unlocked,
+        best: progress.best[lesson.id]
+      }))
+    ];
+    const selectedRow = lessonIndex === null ? 0 : lessonIndex + 1;
+    const left = CANVAS_WIDTH / 2 - 260;
+    
+    items.forEach((item, row) => {
+      const y = LESSON_MENU_TOP + row * LESSON_MENU_ROW_HEIGHT;
+      
+      if (row === selectedRow) {
+        ctx.fillStyle = 'rgba(147, 51, 234, 0.5)';
+        ctx.fillRect(left - 10, y, 540, LESSON_MENU_ROW_HEIGHT - 4);
+      }
+      
+      const baseline = y + LESSON_MENU_ROW_HEIGHT / 2 + 3;
+      ctx.fillStyle = item.locked ? '#666666' : '#ffffff';
+      ctx.font = 'bold 18px Arial';
+      ctx.textAlign = 'left';
+      ctx.fillText(item.name, left, baseline);
+      
+      ctx.font = '16px Arial';
+      ctx.fillStyle = item.locked ? '#555555' : '#CCCCCC';
+      const keys = [...item.keys].map(char => displayGlyph(layout, char)).join(' ');
+      ctx.fillText(keys.length > 30 ? keys.slice(0, 29) + '…' : keys, left + 170, baseline);
+      
+      ctx.textAlign = 'right';
+      if (item.locked) {
+        ctx.fillText('🔒', left + 520, baseline);
+      } else if (item.best) {
+        ctx.fillStyle = item.best.passed ? '#7CFC9A' : '#FECA57';
+        ctx.fillText(`${item.best.passed ? '✓ ' : ''}${Math.round(item.best.accuracy * 100)}%`, left + 520, baseline);
+      }
+    });
+    ctx.textAlign = 'left';
+  };
+  
+  // Lesson verdict under the game over / win message
+  const drawLessonResult = (ctx: CanvasRenderingContext2D, y: number) => {
+    if (lessonIndex === null || !lessonResult) return;
+    const lesson = LESSONS[lessonIndex];
+    
+    ctx.font = '20px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillStyle = lessonResult.passed ? '#7CFC9A' : '#FECA57';
+    ctx.fillText(
+      `${lesson.name}: ${lessonResult.passed ? 'passed' : 'not passed'} • ` +
+        `accuracy ${Math.round(lessonResult.accuracy * 100)}% (need ${Math.round(lesson.minAccuracy * 100)}%) • ` +
+        `${lessonResult.bricksBroken}/${lesson.minBricks} bricks`,
+      CANVAS_WIDTH / 2,
+      y
+    );
+    if (lessonResult.passed && lessonIndex + 1 < LESSONS.length) {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(`Press Enter for the next lesson: ${LESSONS[lessonIndex + 1].name}`, CANVAS_WIDTH / 2, y + 30);
+    }
+  };
+  
+  // Keyboard of the active layout, each key colored by how well it was typed
+  const drawKeyHeatmap = (ctx: CanvasRenderingContext2D, report: GameReport, top: number) => {
+    const rowWidth = layout.rows[0].length * HEATMAP_KEY_PITCH;
+    layout.rows.forEach((keys, row) => {
+      const y = top + row * HEATMAP_KEY_PITCH;
+      const rowLeft = (CANVAS_WIDTH - rowWidth) / 2 + HEATMAP_ROW_OFFSETS[row];
+      keys.forEach((key, index) => {
+        const x = rowLeft + index * HEATMAP_KEY_PITCH;
+        const keyReport = report.keys[key.char];
+        const size = HEATMAP_KEY_PITCH - 6;
+        
+        // Red for keys that were always missed, green for perfect ones
+        ctx.fillStyle = keyReport ? `hsl(${Math.round(keyReport.accuracy * 120)}, 70%, 45%)` : 'rgba(255, 255, 255, 0.1)';
+        ctx.fillRect(x, y, size, size);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(x, y, size, size);
+        
+        ctx.textAlign = 'center';
+        ctx.fillStyle = keyReport ? '#ffffff' : '#888888';
+        ctx.font = 'bold 16px Arial';
+        ctx.fillText(key.glyph, x + size / 2, y + 20);
+        if (keyReport) {
+          ctx.font = '11px Arial';
+          ctx.fillText(`${Math.round(keyReport.accuracy * 100)}%`, x + size / 2, y + size - 5);
+        }
+      });
+    });
+  };
+  
+  // Post-game report: heatmap, overall numbers, weakest keys and fingers
+  const drawKeyReport = (ctx: CanvasRenderingContext2D, report: GameReport, top: number) => {
+    drawKeyHeatmap(ctx, report, top);
+    const textTop = top + layout.rows.length * HEATMAP_KEY_PITCH + 25;
+    
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '18px Arial';
+    const accuracy = report.accuracy === null ? '–' : `${Math.round(report.accuracy * 100)}%`;
+    const reaction = report.averageReaction === null ? '–' : `${Math.round(report.averageReaction)} ms`;
+    ctx.fillText(`Accuracy: ${accuracy} • Average reaction: ${reaction}`, CANVAS_WIDTH / 2, textTop);
+    
+    ctx.fillStyle = '#FECA57';
+    const weakest = report.weakest
+      .map(key => `${displayGlyph(layout, key.char)} ${Math.round(key.accuracy * 100)}%`)
+      .join('  ');
+    ctx.fillText(weakest ? `Weakest keys: ${weakest}` : 'No weak keys this game!', CANVAS_WIDTH / 2, textTop + 26);
+    
+    const weakFinger = report.fingers[0];
+    if (weakFinger && weakFinger.accuracy < 1) {
+      ctx.fillText(
+        `Drill your ${weakFinger.name} finger (${Math.round(weakFinger.accuracy * 100)}%)`,
+        CANVAS_WIDTH / 2,
+        textTop + 52
+      );
+    }
+  };
+  
+  // Game over / win screen, with the key report when the game had typing in it
+  const drawGameEnd = (ctx: CanvasRenderingContext2D, title: string, color: string, score: number) => {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    
+    const hasReport = gameReport !== null && Object.keys(gameReport.keys).length > 0;
+    const titleY = hasReport ? 70 : CANVAS_HEIGHT / 2 - 50;
+    
+    ctx.fillStyle = color;
+    ctx.font = '48px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText(title, CANVAS_WIDTH / 2, titleY);
+    
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '24px Arial';
+    ctx.fillText(`Final Score: ${score}`, CANVAS_WIDTH / 2, titleY + 45);
+    
+    // Where the points came from
+    const { breakdown, combo } = engineRef.current;
+    ctx.fillStyle = '#CCCCCC';
+    ctx.font = '16px Arial';
+    ctx.fillText(
+      `Bricks ${breakdown.bricks} + Combo ${breakdown.combo} + Quick reactions ${breakdown.reaction}` +
+        (breakdown.penalties > 0 ? ` − Wrong keys ${breakdown.penalties}` : '') +
+        (combo.bestStreak > 0 ? ` • Best streak ${combo.bestStreak}` : ''),
+      CANVAS_WIDTH / 2,
+      titleY + 70
+    );
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '24px Arial';
+    
+    if (hasReport) {
+      drawKeyReport(ctx, gameReport, titleY + 95);
+      drawLessonResult(ctx, CANVAS_HEIGHT - 90);
+      ctx.fillStyle = '#ffffff';
+      ctx.font = '20px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(`Press ${actionKeysLabel(bindings, 'restart')} to restart`, CANVAS_WIDTH / 2, CANVAS_HEIGHT - 25);
+    } else {
+      ctx.fillText(`Press ${actionKeysLabel(bindings, 'restart')} to restart`, CANVAS_WIDTH / 2, titleY + 100);
+      drawLessonResult(ctx, CANVAS_HEIGHT / 2 + 100);
+    }
+    ctx.textAlign = 'left';
+  };
+  
+  // Two-player HUD over each half: score, lives, the key to press and the
+  // player's controls; once the match is over, who won
+  const drawVersusUI = (ctx: CanvasRenderingContext2D, hud: VersusHud, over: boolean) => {
+    const half = CANVAS_WIDTH / 2;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(half, 0);
+    ctx.lineTo(half, CANVAS_HEIGHT);
+    ctx.stroke();
+    
+    const moveKeys = [
+      `${actionKeysLabel(bindings, 'player1Left')} ${actionKeysLabel(bindings, 'player1Right')}`,
+      `${actionKeysLabel(bindings, 'moveLeft')} ${actionKeysLabel(bindings, 'moveRight')}`
+    ];
+    hud.players.forEach((player, index) => {
+      const left = index * half;
+      const engine = currentMatch()?.players[index];
+      ctx.font = 'bold 20px Arial';
+      ctx.textAlign = 'left';
+      ctx.fillStyle = PLAYER_COLORS[index];
+      ctx.fillText(`${PLAYER_NAMES[index]}: ${player.score}`, left + 15, 30);
+      ctx.textAlign = 'right';
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(`Lives: ${player.lives}`, left + half - 15, 30);
+      
+      ctx.textAlign = 'center';
+      if (player.out) {
+        ctx.fillStyle = '#FF6B6B';
+        ctx.font = 'bold 32px Arial';
+        ctx.fillText('Out!', left + half / 2, CANVAS_HEIGHT / 2);
+      } else if (engine) {
+        const targets = getTargets(engine);
+        if (targets.length > 0) {
+          ctx.fillStyle = targetColor(targets[0].ball);
+          ctx.font = 'bold 28px Arial';
+          const hints = targets.map(({ brick }) => targetHint(brick))
+            .filter((hint, hintIndex, all) => all.indexOf(hint) === hintIndex);
+          ctx.fillText(`Press: ${hints.join('  ')}`, left + half / 2, 64);
+        }
+      }
+      
+      if (engine) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+        ctx.font = '14px Arial';
+        const letters = [...engine.config.characters].map(char => displayGlyph(layout, char)).join(' ');
+        ctx.fillText(`${moveKeys[index]} to move • ${letters}`, left + half / 2, CANVAS_HEIGHT - 10);
+      }
+    });
+    
+    if (over) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      
+      ctx.fillStyle = hud.winner === null ? '#FECA57' : PLAYER_COLORS[hud.winner];
+      ctx.font = '48px Arial';
+      ctx.fillText(hud.winner === null ? 'Draw!' : `${PLAYER_NAMES[hud.winner]} Wins!`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 50);
+      
+      ctx.fillStyle = '#ffffff';
+      ctx.font = '24px Arial';
+      ctx.fillText(
+        hud.players.map((player, index) => `${PLAYER_NAMES[index]}: ${player.score}`).join('   •   '),
+        CANVAS_WIDTH / 2,
+        CANVAS_HEIGHT / 2
+      );
+      ctx.font = '20px Arial';
+      ctx.fillText(
+        `Press ${actionKeysLabel(bindings, 'restart')} for a rematch • Enter for the start screen`,
+        CANVAS_WIDTH / 2,
+        CANVAS_HEIGHT / 2 + 50
+      );
+    }
+    ctx.textAlign = 'left';
+  };
+  
+  // The opponent in an online race, under the lives: score, lives and the
+  // bricks they have left, or why the race stopped
+  const drawOpponent = (ctx: CanvasRenderingContext2D) => {
+    if (!raceView || raceView.status === 'connecting' || raceView.status === 'waiting') return;
+    ctx.textAlign = 'right';
+    ctx.font = 'bold 16px Arial';
+    ctx.fillStyle = '#FF9FF3';
+    const { progress } = raceView;
+    ctx.fillText(`${raceView.opponent}: ${progress ? progress.score : 0}`, CANVAS_WIDTH - 20, 80);
+    ctx.font = '14px Arial';
+    ctx.fillStyle = '#CCCCCC';
+    if (progress) {
+      ctx.fillText(`♥ ${progress.lives} • ${progress.bricksLeft} bricks left`, CANVAS_WIDTH - 20, 98);
+    }
+    if (raceView.message && !raceView.result) {
+      ctx.fillStyle = '#FECA57';
+      ctx.fillText(raceView.message, CANVAS_WIDTH - 20, 116);
+    }
+    ctx.textAlign = 'left';
+  };
+  
   const drawUI = (ctx: CanvasRenderingContext2D, currentGameState: GameState, mobile: boolean) => {
     // Show start screen if game hasn't started
     if (!currentGameState.gameStarted) {
@@ -429,329 +1148,515 @@ const TypeBreakerGame: React.FC = () => {
       ctx.fillStyle = '#FECA57';
       ctx.font = 'bold 64px Arial';
       ctx.textAlign = 'center';
-      ctx.fillText('Type Breaker', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 100);
+      ctx.fillText('Type Breaker', CANVAS_WIDTH / 2, 80);
       
       // Subtitle
       ctx.fillStyle = '#4ECDC4';
       ctx.font = '28px Arial';
-      ctx.fillText('Learn Touch Typing While Having Fun!', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 40);
+      ctx.fillText('Learn Touch Typing While Having Fun!', CANVAS_WIDTH / 2, 125);
+      
+      drawLessonMenu(ctx);
       
       // Instructions
       ctx.fillStyle = '#ffffff';
       ctx.font = '20px Arial';
-      ctx.fillText('Click "Start Game" to begin', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 20);
+      ctx.textAlign = 'center';
+      ctx.fillText('Choose a lesson with ↑ ↓ and click "Start Game" to begin', CANVAS_WIDTH / 2, LESSON_MENU_TOP + (LESSONS.length + 1) * LESSON_MENU_ROW_HEIGHT + 30);
       
       ctx.textAlign = 'left';
       return;
     }
     
+    if (currentGameState.versus) {
+      drawVersusUI(ctx, currentGameState.versus, currentGameState.gameOver);
+      return;
+    }
+    
     // Normal game UI
     ctx.fillStyle = '#ffffff';
     ctx.font = '24px Arial';
     ctx.fillText(`Score: ${currentGameState.score}`, 20, 30);
     ctx.fillText(`Lives: ${currentGameState.lives}`, CANVAS_WIDTH - 120, 30);
+    const { combo } = engineRef.current;
+    if (combo.streak > 0) {
+      ctx.fillStyle = combo.multiplier > 1 ? '#FECA57' : '#CCCCCC';
+      ctx.font = '16px Arial';
+      ctx.fillText(`Streak ${combo.streak} • x${combo.multiplier}`, CANVAS_WIDTH - 120, 52);
+    }
+    drawPowerUpHud(ctx);
+    drawOpponent(ctx);
     
     // Show game mode
     ctx.fillStyle = '#CCCCCC';
     ctx.font = '16px Arial';
     ctx.textAlign = 'center';
+    const lessonLabel = lessonIndex === null ? '' : ` • ${LESSONS[lessonIndex].name}`;
     ctx.fillText(
-      `Mode: ${currentGameState.letterMode ? 'Letter Challenge' : 'Classic'}`,
+      `Mode: ${MODE_LABELS[currentGameState.mode]}${isTypingMode(currentGameState.mode) ? ` • ${layout.name}` : ''}${lessonLabel}`,
       CANVAS_WIDTH / 2,
       30
     );
     ctx.textAlign = 'left';
     
-    // Show letter hint only in letter mode
-    if (currentGameState.letterMode && showLetterHint && targetBrick) {
-      ctx.fillStyle = '#FFFF00';
+    // Announce the new level for a moment after the previous one is cleared
+    const banner = levelBannerRef.current;
+    if (banner && systemClock.now() < banner.until && !currentGameState.gameOver && !currentGameState.gameWon) {
+      ctx.fillStyle = '#4ECDC4';
+      ctx.font = 'bold 40px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(banner.text, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 60);
+      ctx.textAlign = 'left';
+    }
+    
+    // Show letter hints only in letter mode, one per targeted brick in its ball's color
+    const targets = getTargets(engineRef.current)
+      .filter((target, index, all) => all.findIndex(other => other.brick.id === target.brick.id) === index);
+    if (currentGameState.mode === 'letter' && targets.length > 0) {
       ctx.font = 'bold 32px Arial';
       ctx.textAlign = 'center';
-      if (mobile) {
+      if (mobile && !onScreenTyping) {
+        ctx.fillStyle = targetColor(targets[0].ball);
         ctx.fillText(`Tap the block!`, CANVAS_WIDTH / 2, 60);
       } else {
-        ctx.fillText(`Press: ${targetBrick.letter}`, CANVAS_WIDTH / 2, 60);
+        const hints = targets.map(({ brick }) => targetHint(brick));
+        const label = 'Press: ';
+        const gap = 28;
+        const labelWidth = ctx.measureText(label).width;
+        const widths = hints.map(hint => ctx.measureText(hint).width);
+        let x = CANVAS_WIDTH / 2 - (labelWidth + widths.reduce((sum, width) => sum + width + gap, -gap)) / 2;
+        ctx.textAlign = 'left';
+        ctx.fillStyle = targetColor(targets[0].ball);
+        ctx.fillText(label, x, 60);
+        x += labelWidth;
+        targets.forEach(({ ball }, index) => {
+          ctx.fillStyle = targetColor(ball);
+          ctx.fillText(hints[index], x, 60);
+          x += widths[index] + gap;
+        });
       }
       ctx.textAlign = 'left';
     }
     
-    // Mobile control hint
-    if (mobile && currentGameState.gameStarted && !currentGameState.paused) {
-      ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-      ctx.font = '14px Arial';
+    // The wrong key next to the one that was expected, and any lockout it caused
+    const wrongKey = wrongKeyRef.current;
+    if (currentGameState.mode === 'letter' && wrongKey && systemClock.now() - wrongKey.at < WRONG_KEY_FLASH_MS) {
+      ctx.fillStyle = '#FF6B6B';
+      ctx.font = 'bold 20px Arial';
       ctx.textAlign = 'center';
-      ctx.fillText('Tap left/right side to move paddle', CANVAS_WIDTH / 2, CANVAS_HEIGHT - 10);
+      const locked = isLockedOut(engineRef.current) ? ' • Keys locked!' : '';
+      ctx.fillText(
+        `✗ ${displayGlyph(layout, wrongKey.typed.toUpperCase())} — expected ${displayGlyph(layout, wrongKey.expected)}${locked}`,
+        CANVAS_WIDTH / 2,
+        90
+      );
       ctx.textAlign = 'left';
     }
     
-    if (currentGameState.gameOver) {
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-      
-      ctx.fillStyle = '#FF6B6B';
-      ctx.font = '48px Arial';
+    // Show the target word with the typed part in green in word mode
+    const targetBrick = getTargetBrick(engineRef.current);
+    const targetWord = targetBrick && getBrickWord(engineRef.current, targetBrick);
+    if (currentGameState.mode === 'word' && targetWord) {
+      const label = mobile ? 'Tap: ' : 'Type: ';
+      const done = targetWord.text.slice(0, targetWord.typed);
+      const rest = targetWord.text.slice(targetWord.typed);
+      ctx.font = 'bold 32px Arial';
+      const startX = CANVAS_WIDTH / 2 - ctx.measureText(label + targetWord.text).width / 2;
+      ctx.fillStyle = '#FFFF00';
+      ctx.fillText(label, startX, 60);
+      const doneX = startX + ctx.measureText(label).width;
+      ctx.fillStyle = '#7CFC9A';
+      ctx.fillText(done, doneX, 60);
+      ctx.fillStyle = '#FFFF00';
+      ctx.fillText(rest, doneX + ctx.measureText(done).width, 60);
+    }
+    
+    // What adaptive difficulty is emphasizing at the moment
+    const adaptation = isTypingMode(currentGameState.mode) && describeAdaptation(engineRef.current);
+    if (adaptation) {
+      ctx.fillStyle = '#9AD0EC';
+      ctx.font = '14px Arial';
       ctx.textAlign = 'center';
-      ctx.fillText('Game Over!', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 50);
-      
-      ctx.fillStyle = '#ffffff';
-      ctx.font = '24px Arial';
-      ctx.fillText(`Final Score: ${currentGameState.score}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
-      ctx.fillText('Press R to restart', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 50);
+      ctx.fillText(adaptation, CANVAS_WIDTH / 2, CANVAS_HEIGHT - (mobile ? 30 : 10));
       ctx.textAlign = 'left';
     }
     
-    if (currentGameState.gameWon) {
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-      
-      ctx.fillStyle = '#4ECDC4';
-      ctx.font = '48px Arial';
+    // Mobile control hint
+    if (mobile && currentGameState.gameStarted && !currentGameState.paused) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+      ctx.font = '14px Arial';
       ctx.textAlign = 'center';
-      ctx.fillText('You Win!', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 50);
-      
-      ctx.fillStyle = '#ffffff';
-      ctx.font = '24px Arial';
-      ctx.fillText(`Final Score: ${currentGameState.score}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
-      ctx.fillText('Press R to restart', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 50);
+      ctx.fillText('Drag along the bottom to move paddle', CANVAS_WIDTH / 2, CANVAS_HEIGHT - 10);
       ctx.textAlign = 'left';
     }
+    
+    if (raceView?.result) {
+      drawGameEnd(
+        ctx,
+        raceView.result === 'won' ? 'You Win the Race!' : `${raceView.opponent} Wins the Race`,
+        raceView.result === 'won' ? '#4ECDC4' : '#FF6B6B',
+        currentGameState.score
+      );
+    } else if (currentGameState.gameOver) {
+      drawGameEnd(ctx, 'Game Over!', '#FF6B6B', currentGameState.score);
+    } else if (currentGameState.gameWon) {
+      drawGameEnd(ctx, 'You Win!', '#4ECDC4', currentGameState.score);
+    }
   };
 
-  // Function to calculate time until ball hits brick
-  const calculateTimeToHitBrick = (ball: Ball, brick: Brick): number | null => {
-    const ballCenterX = ball.x;
-    const ballCenterY = ball.y;
-    const ballSpeedX = ball.dx;
-    const ballSpeedY = ball.dy;
-    
-    // Calculate time to reach brick's boundaries
-    let timeToHit = Infinity;
+  const changeAudio = (settings: Partial<AudioSettings>) => {
+    changeSettings({ audio: { ...audio, ...settings } });
+  };
+  
+  // Easy play comes with the trajectory preview as a training aid
+  const saveGameplay = (gameplay: GameplaySettings) => {
+    changeSettings(gameplay.preset === 'easy' ? { gameplay, trajectoryPreview: true } : { gameplay });
+    setShowSettings(false);
+  };
+  
+  const saveControls = (nextBindings: KeyBindings, nextPointer: PointerSettings) => {
+    changeSettings({ bindings: nextBindings, pointer: nextPointer });
+    setShowControls(false);
+  };
+  
+  const saveGamepad = (next: GamepadSettings) => {
+    changeSettings({ gamepad: next });
+    setShowGamepad(false);
+  };
+  
+  // Note the points scored within a level once it is over
+  const finishLevel = useCallback((levelIndex: number) => {
+    const score = engineRef.current.score;
+    levelScoresRef.current[levelIndex] = score - levelStartScoreRef.current;
+    levelStartScoreRef.current = score;
+  }, []);
+
+  // Mirror engine events into React state and visual effects
+  const handleEngineEvents = useCallback((events: GameEvent[]) => {
+    let hudChanged = false;
+    // Each sound plays once per step, however many bricks a chain reaction breaks
+    const sounded = new Set<SoundEffect>();
+    const playSound = (effect: SoundEffect) => {
+      if (sounded.has(effect)) return;
+      sounded.add(effect);
+      // Hits sound higher the longer the streak
+      const { streak } = engineRef.current.combo;
+      const pitch = effect === 'brick' || effect === 'paddle' ? 2 ** (Math.min(streak, STREAK_FOR_OCTAVE) / STREAK_FOR_OCTAVE) : 1;
+      sounds.play(effect, pitch);
+    };
     
-    // Check horizontal collision
-    if (ballSpeedX !== 0) {
-      const timeToLeft = (brick.x - ballCenterX) / ballSpeedX;
-      const timeToRight = (brick.x + brick.width - ballCenterX) / ballSpeedX;
-      
-      [timeToLeft, timeToRight].forEach(time => {
-        if (time > 0) {
-          const futureY = ballCenterY + ballSpeedY * time;
-          if (futureY >= brick.y && futureY <= brick.y + brick.height) {
-            timeToHit = Math.min(timeToHit, time);
+    events.forEach(event => {
+      switch (event.type) {
+        case 'ballBounced':
+          playSound(event.surface === 'paddle' ? 'paddle' : 'wall');
+          break;
+        case 'brickBroken':
+          createExplosion(event.brick);
+          playSound('brick');
+          hudChanged = true;
+          break;
+        case 'brickExploded':
+          createExplosion(event.brick, 36, '#FFD166');
+          break;
+        case 'targetChanged':
+          // Read out each new letter to aim for
+          if (engineRef.current.mode === 'letter' && event.brick) {
+            const glyph = displayGlyph(layout, event.brick.letter);
+            sounds.speak(event.brick.type === 'shift' ? `Shift ${glyph}` : glyph, layout.lang);
           }
+          break;
+        case 'gameOver':
+        case 'gameWon': {
+          const engine = engineRef.current;
+          if (engine.gameWon) playSound('levelClear');
+          const report = buildReport(engine.stats, layout);
+          setGameReport(report);
+          finishLevel(engine.levelIndex);
+          // Watching a replay doesn't count as playing it
+          if (watching()) {
+            hudChanged = true;
+            break;
+          }
+          // Neither does a race, which is settled with the opponent instead
+          if (inRace()) {
+            reportFinish(engine);
+            hudChanged = true;
+            break;
+          }
+          
+          // A finished lesson is scored and may unlock the next one
+          const result = lessonIndex === null ? null : evaluateLesson(LESSONS[lessonIndex], engine.stats);
+          setLessonResult(result);
+          saveProfile(recordGame(profile, {
+            session: {
+              date: Date.now(),
+              mode: engine.mode,
+              layoutId,
+              lessonId: lessonIndex === null ? null : LESSONS[lessonIndex].id,
+              score: engine.score,
+              level: engine.levelIndex + 1,
+              won: engine.gameWon,
+              accuracy: report.accuracy,
+              averageReaction: report.averageReaction,
+              bricksBroken: engine.stats.bricksBroken,
+              duration: engine.time
+            },
+            levelScores: levelScoresRef.current,
+            keys: engine.stats.keys,
+            lesson: lessonIndex === null || !result ? null : { index: lessonIndex, result },
+            adaptive: engine.config.adaptive
+          }));
+          hudChanged = true;
+          break;
         }
-      });
-    }
-    
-    // Check vertical collision
-    if (ballSpeedY !== 0) {
-      const timeToTop = (brick.y - ballCenterY) / ballSpeedY;
-      const timeToBottom = (brick.y + brick.height - ballCenterY) / ballSpeedY;
-      
-      [timeToTop, timeToBottom].forEach(time => {
-        if (time > 0) {
-          const futureX = ballCenterX + ballSpeedX * time;
-          if (futureX >= brick.x && futureX <= brick.x + brick.width) {
-            timeToHit = Math.min(timeToHit, time);
+        case 'levelCleared':
+          finishLevel(event.levelIndex);
+          showLevelBanner(engineRef.current);
+          playSound('levelClear');
+          hudChanged = true;
+          break;
+        case 'lifeLost':
+          playSound('lifeLost');
+          hudChanged = true;
+          break;
+        case 'powerUpCaught': {
+          const { paddle } = engineRef.current;
+          createExplosion({ ...paddle, color: POWER_UP_STYLES[event.powerUp].color }, 16);
+          hudChanged = true; // an extra life
+          break;
+        }
+        case 'comboUp':
+          addCallout(`Combo x${event.multiplier}!`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, '#FECA57', 36);
+          break;
+        case 'comboBroken':
+          if (event.streak >= CALLOUT_MIN_LOST_STREAK) {
+            addCallout(`Streak of ${event.streak} lost`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, '#FF6B6B', 24);
           }
+          break;
+        case 'reactionBonus':
+          addCallout(`+${event.points} quick!`, event.brick.x + event.brick.width / 2, event.brick.y, '#7CFC9A', 16);
+          hudChanged = true;
+          break;
+        case 'wrongKey':
+          wrongKeyRef.current = {
+            brickId: event.brick.id,
+            typed: event.typed,
+            expected: event.brick.letter,
+            at: systemClock.now()
+          };
+          playSound('wrongKey');
+          hudChanged = true;
+          break;
+        case 'shieldUsed': {
+          const { paddle } = engineRef.current;
+          createExplosion({ ...paddle, color: POWER_UP_STYLES.shield.color }, 24);
+          break;
         }
-      });
-    }
+      }
+    });
     
-    return timeToHit === Infinity ? null : timeToHit * 16.67; // Convert to milliseconds (assuming 60fps)
-  };
+    if (hudChanged) {
+      syncHud(engineRef.current);
+      reportProgress(engineRef.current);
+    }
+  }, [createExplosion, addCallout, showLevelBanner, finishLevel, watching, inRace, reportFinish, reportProgress, syncHud, saveProfile, profile, lessonIndex, layout, layoutId]);
 
-  // Collision detection
-  const checkCollisions = useCallback(() => {
-    const ball = gameObjects.current.ball;
-    const paddle = gameObjects.current.paddle;
-    const currentTime = Date.now();
+  // Effects and HUD of a two-player step; a player's effects are shifted
+  // into their half of the canvas
+  const handleVersusEvents = useCallback((match: VersusMatch, events: GameEvent[][]) => {
+    let hudChanged = false;
+    const sounded = new Set<SoundEffect>();
+    const playSound = (effect: SoundEffect) => {
+      if (sounded.has(effect)) return;
+      sounded.add(effect);
+      sounds.play(effect);
+    };
     
-    // Only check letter targeting in letter mode
-    if (gameState.letterMode) {
-      // Check which brick the ball is heading towards
-      let closestBrick: Brick | null = null;
-      let closestTime = Infinity;
-      
-      gameObjects.current.bricks.forEach(brick => {
-        if (brick.visible) {
-          const timeToHit = calculateTimeToHitBrick(ball, brick);
-          if (timeToHit !== null && timeToHit < closestTime) {
-            closestTime = timeToHit;
-            closestBrick = brick;
-          }
+    events.forEach((playerEvents, index) => {
+      const left = index * CANVAS_WIDTH / 2;
+      const engine = match.players[index];
+      playerEvents.forEach(event => {
+        switch (event.type) {
+          case 'ballBounced':
+            playSound(event.surface === 'paddle' ? 'paddle' : 'wall');
+            break;
+          case 'brickBroken':
+            createExplosion({ ...event.brick, x: event.brick.x + left });
+            playSound('brick');
+            hudChanged = true;
+            break;
+          case 'brickExploded':
+            createExplosion({ ...event.brick, x: event.brick.x + left }, 36, '#FFD166');
+            break;
+          case 'powerUpCaught':
+            createExplosion({ ...engine.paddle, x: engine.paddle.x + left, color: POWER_UP_STYLES[event.powerUp].color }, 16);
+            hudChanged = true;
+            break;
+          case 'comboUp':
+            addCallout(`Combo x${event.multiplier}!`, left + CANVAS_WIDTH / 4, CANVAS_HEIGHT / 2, PLAYER_COLORS[index], 28);
+            break;
+          case 'levelCleared':
+            playSound('levelClear');
+            hudChanged = true;
+            break;
+          case 'lifeLost':
+            playSound('lifeLost');
+            hudChanged = true;
+            break;
+          case 'wrongKey':
+            playSound('wrongKey');
+            hudChanged = true;
+            break;
+          case 'reactionBonus':
+          case 'gameOver':
+          case 'gameWon':
+            hudChanged = true;
+            break;
         }
       });
-      
-      // Update target brick and show hint
-      if (closestBrick !== targetBrick) {
-        // Clear previous target
-        if (targetBrick) {
-          targetBrick.isTarget = false;
-        }
-        
-        // Set new target
-        setTargetBrick(closestBrick);
-        if (closestBrick) {
-          (closestBrick as Brick).isTarget = true;
-          setShowLetterHint(true);
-        } else {
-          setShowLetterHint(false);
-        }
-      }
-    } else {
-      // In classic mode, clear any existing targets
-      if (targetBrick) {
-        targetBrick.isTarget = false;
-        setTargetBrick(null);
-        setShowLetterHint(false);
+    });
+    
+    if (match.over) playSound('levelClear');
+    if (hudChanged) syncVersusHud(match);
+  }, [createExplosion, addCallout, syncVersusHud]);
+
+  // Row 0 is free play, row N is lesson N - 1; locked lessons can't be picked
+  const selectLessonRow = (row: number) => {
+    if (row < 0 || row > Math.min(progress.unlocked, LESSONS.length)) return;
+    setLessonIndex(row === 0 ? null : row - 1);
+  };
+  
+  const selectLayout = (id: LayoutId) => {
+    changeSettings({ layoutId: id });
+    if (lessonIndex !== null && lessonIndex >= profileProgress(profile, id).unlocked) {
+      setLessonIndex(null);
+    }
+  };
+  
+  const watchLastGame = () => {
+    const recording = lastRecording();
+    if (recording) startReplay(recording, layoutId);
+  };
+  
+  // The race is played with this player's wall settings when they open the room
+  const joinRoom = (url: string, room: string) => {
+    joinRace(url, { room, name: profile.name, layoutId, config: { ...engineConfig, adaptive: false, keyWeights: {} } });
+  };
+  
+  // Closing the panel before the race starts gives up on it
+  const closeRacePanel = () => {
+    if (raceView?.status !== 'racing') leaveRace();
+    setShowRace(false);
+  };
+  
+  // Back to the start screen after a two-player match
+  const leaveVersus = () => {
+    setMatch(null);
+    showStartScreen(profile.settings.mode);
+  };
+  
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (gameState.gameStarted) {
+      // Trackpad mode can keep the mouse pointer inside the game while playing
+      if (playing && !gameState.versus && pointer.mode === 'trackpad' && pointer.pointerLock && document.pointerLockElement !== canvas) {
+        canvas.requestPointerLock();
       }
+      return;
     }
     
-    // Ball-wall collisions with precise positioning
-    if (ball.x - ball.size <= 0) {
-      ball.dx = Math.abs(ball.dx); // Force rightward movement
-      ball.x = ball.size; // Position exactly at the boundary
+    const rect = canvas.getBoundingClientRect();
+    const y = (e.clientY - rect.top) / canvasScale;
+    selectLessonRow(Math.floor((y - LESSON_MENU_TOP) / LESSON_MENU_ROW_HEIGHT));
+  };
+
+  // The restart key works on the game and on screens over it once the game is over
+  const restartWhenOver = (action: InputAction | null) => {
+    if (action === 'restart' && (gameState.gameOver || gameState.gameWon)) {
+      resetGame();
     }
-    if (ball.x + ball.size >= CANVAS_WIDTH) {
-      ball.dx = -Math.abs(ball.dx); // Force leftward movement
-      ball.x = CANVAS_WIDTH - ball.size; // Position exactly at the boundary
+  };
+  
+  // Lesson selection on the start screen
+  const startScreenKey = (e: KeyboardEvent, action: InputAction | null) => {
+    restartWhenOver(action);
+    if (e.code === 'ArrowUp' || e.code === 'ArrowDown') {
+      e.preventDefault();
+      const row = (lessonIndex === null ? 0 : lessonIndex + 1) + (e.code === 'ArrowUp' ? -1 : 1);
+      selectLessonRow(row);
     }
-    if (ball.y - ball.size <= 0) {
-      ball.dy = Math.abs(ball.dy); // Force downward movement
-      ball.y = ball.size; // Position exactly at the boundary
+    if (e.code === 'Enter') {
+      startGame();
     }
+  };
+  
+  const gameKey = (e: KeyboardEvent, action: InputAction | null) => {
+    const match = currentMatch();
+    restartWhenOver(action);
     
-    // Ball-paddle collision
-    if (ball.y + ball.size >= paddle.y &&
-        ball.y - ball.size <= paddle.y + paddle.height &&
-        ball.x >= paddle.x &&
-        ball.x <= paddle.x + paddle.width) {
-      ball.dy = -Math.abs(ball.dy);
-      
-      // Add angle based on where ball hits paddle
-      const hitPos = (ball.x - paddle.x) / paddle.width;
-      ball.dx = ball.speed * (hitPos - 0.5) * 2;
+    if (e.code === 'Enter' && gameState.versus && gameState.gameOver) {
+      leaveVersus();
     }
     
-    // Ball-brick collisions
-    let scoreIncrease = 0;
-    gameObjects.current.bricks.forEach(brick => {
-      if (brick.visible &&
-          ball.x + ball.size >= brick.x &&
-          ball.x - ball.size <= brick.x + brick.width &&
-          ball.y + ball.size >= brick.y &&
-          ball.y - ball.size <= brick.y + brick.height) {
-        
-        let shouldBreakBrick = false;
-        
-        if (gameState.letterMode) {
-          // Letter mode: check if correct letter was pressed within the time window
-          const timeSinceKeyPress = currentTime - brick.lastKeyPressTime;
-          const hasCorrectKey = pressedKeys.has(brick.letter);
-          const withinTimeWindow = timeSinceKeyPress <= LETTER_PRESS_WINDOW;
-          
-          // Debug: You can uncomment these to see what's happening
-          // console.log(`Brick ${brick.letter}: timeSince=${timeSinceKeyPress}, hasKey=${hasCorrectKey}, withinWindow=${withinTimeWindow}`);
-          
-          if (hasCorrectKey && withinTimeWindow) {
-            shouldBreakBrick = true;
-          }
-        } else {
-          // Classic mode: always break brick on collision
-          shouldBreakBrick = true;
-        }
-        
-        if (shouldBreakBrick) {
-          // Break the brick with explosion effect
-          brick.visible = false;
-          scoreIncrease += brick.points;
-          
-          // Create explosion animation
-          createExplosion(brick);
-          
-          // Clear target if this was the target brick
-          if (brick === targetBrick) {
-            setTargetBrick(null);
-            setShowLetterHint(false);
-          }
-        }
-        
-        // Always bounce the ball off the brick (whether broken or not)
-        // More precise collision detection and response
-        const ballLeft = ball.x - ball.size;
-        const ballRight = ball.x + ball.size;
-        const ballTop = ball.y - ball.size;
-        const ballBottom = ball.y + ball.size;
-        
-        const brickLeft = brick.x;
-        const brickRight = brick.x + brick.width;
-        const brickTop = brick.y;
-        const brickBottom = brick.y + brick.height;
-        
-        // Calculate overlaps
-        const overlapLeft = ballRight - brickLeft;
-        const overlapRight = brickRight - ballLeft;
-        const overlapTop = ballBottom - brickTop;
-        const overlapBottom = brickBottom - ballTop;
-        
-        // Find the smallest overlap to determine collision side
-        const minOverlap = Math.min(overlapLeft, overlapRight, overlapTop, overlapBottom);
-        
-        // Respond based on the side with minimum overlap
-        if (minOverlap === overlapLeft) {
-          // Ball hit brick from the left
-          ball.dx = -Math.abs(ball.dx); // Force leftward movement
-          ball.x = brickLeft - ball.size - 1; // Position ball to the left of brick
-        } else if (minOverlap === overlapRight) {
-          // Ball hit brick from the right
-          ball.dx = Math.abs(ball.dx); // Force rightward movement
-          ball.x = brickRight + ball.size + 1; // Position ball to the right of brick
-        } else if (minOverlap === overlapTop) {
-          // Ball hit brick from the top
-          ball.dy = -Math.abs(ball.dy); // Force upward movement
-          ball.y = brickTop - ball.size - 1; // Position ball above brick
-        } else if (minOverlap === overlapBottom) {
-          // Ball hit brick from the bottom
-          ball.dy = Math.abs(ball.dy); // Force downward movement
-          ball.y = brickBottom + ball.size + 1; // Position ball below brick
-        }
-        
-        brick.isTarget = false;
-      }
-    });
-    
-    if (scoreIncrease > 0) {
-      setGameState(prev => ({ ...prev, score: prev.score + scoreIncrease }));
+    // Move on once a lesson is passed
+    if (e.code === 'Enter' && lessonIndex !== null && lessonResult?.passed && lessonIndex + 1 < LESSONS.length) {
+      restartGame(lessonIndex + 1);
+    }
+    if (action === 'pause') {
+      togglePause();
     }
     
-    // Check if ball fell off screen
-    if (ball.y > CANVAS_HEIGHT) {
-      setGameState(prev => {
-        const newLives = prev.lives - 1;
-        if (newLives <= 0) {
-          return { ...prev, lives: 0, gameOver: true };
-        }
-        return { ...prev, lives: newLives };
-      });
-      
-      // Reset ball position with random velocity
-      ball.x = CANVAS_WIDTH / 2;
-      ball.y = CANVAS_HEIGHT - 150; // Closer to paddle
-      const { dx, dy } = getRandomBallVelocity();
-      ball.dx = dx;
-      ball.dy = dy;
-      
-      // Clear target
-      setTargetBrick(null);
-      setShowLetterHint(false);
+    // Cycle game modes (lessons, two-player matches and races keep their mode)
+    if (action === 'toggleMode' && lessonIndex === null && !match && !inRace()) {
+      const mode = NEXT_MODE[gameState.mode];
+      setMode(engineRef.current, mode);
+      recordMode(mode);
+      setHudMode(mode);
+      changeSettings({ mode });
     }
     
-    // Check win condition
-    const visibleBricks = gameObjects.current.bricks.filter(brick => brick.visible);
-    if (visibleBricks.length === 0) {
-      setGameState(prev => ({ ...prev, gameWon: true }));
+    // Keys that aren't commands type through the selected layout (only in typing modes)
+    const char = charForKey(layout, e.code, e.key);
+    if (isTypingMode(gameState.mode) && action === 'typeChar' && char) {
+      e.preventDefault(); // Keep keys like ' and / from opening browser quick find
+      // The engine tells Shift-typed letters by their case
+      const letter = e.shiftKey ? char : char.toLowerCase();
+      if (match) {
+        typeForPlayer(layout, char, letter);
+      } else {
+        pendingLettersRef.current.push(letter);
+      }
     }
-  }, [targetBrick, pressedKeys, createExplosion, gameState.letterMode]);
+  };
+  
+  // Whatever is on top takes the keys; nothing typed into a panel or a
+  // replay reaches the game
+  const { held, press } = useKeyRouter(bindings, [
+    { active: replayView !== null, onKey: replayKey },
+    { active: showSettings, ownInputs: true, onKey: closeOnEscape(() => setShowSettings(false)) },
+    { active: showGamepad, ownInputs: true, onKey: closeOnEscape(() => setShowGamepad(false)) },
+    { active: showRace, ownInputs: true, onKey: closeOnEscape(closeRacePanel) },
+    // The controls screen listens for keys to bind on its own
+    { active: showControls, ownInputs: true, onKey: () => {} },
+    {
+      active: showLeaderboard,
+      onKey: (e, action) => {
+        restartWhenOver(action);
+        if (e.code === 'Escape') setShowLeaderboard(false);
+      }
+    },
+    { active: !gameState.gameStarted, onKey: startScreenKey },
+    { active: true, onKey: gameKey }
+  ], () => currentMatch() !== null);
+
+  // The on-screen keyboard types through the same handler as the real one
+  const pressVirtualKey = (key: KeyDef, shifted: boolean) => {
+    press(new KeyboardEvent('keydown', {
+      code: key.code,
+      key: shifted ? key.char : key.char.toLowerCase(),
+      shiftKey: shifted
+    }));
+  };
 
   // Main game loop
   const gameLoop = useCallback(() => {
@@ -760,176 +1665,188 @@ const TypeBreakerGame: React.FC = () => {
     
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
+
+    const now = systemClock.now();
+    const frameMs = lastFrameTimeRef.current === null ? 0 : now - lastFrameTimeRef.current;
+    lastFrameTimeRef.current = now;
+    const dt = Math.min(frameMs, 100) / 1000; // seconds, for visual effects only
     
-    // Clear canvas
-    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    // Interpolation factor between the last two engine steps
+    let alpha = 1;
     
-    // Always draw background and UI
-    drawBackground(ctx);
+    const replay = watching();
     
-    // Only draw game elements if game has started
-    if (gameState.gameStarted) {
-      drawBricks(ctx);
-      drawParticles(ctx);
-      drawPaddle(ctx);
-      drawBall(ctx);
+    // The controller is polled every frame, so its buttons work while paused
+    const pad = gamepadReader.read(gamepad);
+    if (pad && !replay && !showSettings && !showControls && !showGamepad && !showRace && !showLeaderboard) {
+      if (pad.actions.includes('pause') && gameState.gameStarted) {
+        togglePause();
+      }
+      if (pad.actions.includes('restart') && (gameState.gameOver || gameState.gameWon)) {
+        resetGame();
+      }
     }
+    // Stick tilt as paddle pixels per second
+    const steer = pad ? pad.steer * engineRef.current.config.paddleSpeed * gamepad.speed : 0;
     
-    // Always draw UI (handles both start screen and game UI)
-    drawUI(ctx, gameState, isMobile);
-    
-    // Update game state only if game has started and not paused
-    if (gameState.gameStarted && !gameState.paused && !gameState.gameOver && !gameState.gameWon) {
-      const paddle = gameObjects.current.paddle;
-      const ball = gameObjects.current.ball;
-      
-      // Update paddle position
-      if (keysRef.current['ArrowLeft'] && paddle.x > 0) {
-        paddle.x -= paddle.speed;
-      }
-      if (keysRef.current['ArrowRight'] && paddle.x < CANVAS_WIDTH - paddle.width) {
-        paddle.x += paddle.speed;
+    if (replay) {
+      // A replay runs the recorded input instead of the player's
+      if (replayView?.playing) {
+        engineRef.current = replay.state;
+        alpha = advanceReplay(timestepRef.current, frameMs, handleEngineEvents);
+        if (replay.state.mode !== gameState.mode) {
+          syncHud(replay.state);
+        }
+        updateStars(dt);
+      } else {
+        timestepRef.current.accumulator = 0;
       }
-      
-      // Update ball position
-      ball.x += ball.dx;
-      ball.y += ball.dy;
+    } else if (currentMatch() && gameState.gameStarted && !gameState.paused && !gameState.gameOver) {
+      alpha = advanceMatch(timestepRef.current, frameMs, held.current, handleVersusEvents);
+      updateStars(dt);
+    } else if (gameState.gameStarted && !gameState.paused && !gameState.gameOver && !gameState.gameWon) {
+      // Update game state only if game has started and not paused
+      alpha = advanceFixedTimestep(timestepRef.current, frameMs, stepMs => {
+        const engine = engineRef.current;
+        const steered = steer * stepMs / 1000 + pointerRef.current.shift(engine.paddle, engine.config.width, stepMs);
+        const input = {
+          left: held.current.moveLeft !== undefined || !!pad?.left,
+          right: held.current.moveRight !== undefined || !!pad?.right,
+          // Rounded to hundredths of a pixel, which keeps recordings short
+          paddleShift: paddleShiftRef.current + Math.round(steered * 100) / 100,
+          letters: pendingLettersRef.current
+        };
+        recordStep(input);
+        takeAttacks(engine);
+        const events = step(engine, input, stepMs);
+        // One-off input only applies to the first step of the frame
+        pendingLettersRef.current = [];
+        paddleShiftRef.current = 0;
+        handleEngineEvents(events);
+        
+        const rows = sendAttacks(engine);
+        if (rows > 0) {
+          addCallout(rows > 1 ? `${rows} rows sent!` : 'Row sent!', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 40, '#FF9FF3', 24);
+        }
+      });
       
       // Update background stars
-      updateStars();
-      
-      // Check collisions
-      checkCollisions();
+      updateStars(dt);
+    } else {
+      // Don't catch up on time spent paused
+      timestepRef.current.accumulator = 0;
     }
     
     // Update particles even when paused for smooth animation
-    updateParticles();
+    updateParticles(dt);
+    updateCallouts(dt);
     
     // Update stars even when game hasn't started for animated background
-    if (!gameState.gameStarted || gameState.paused) {
-      updateStars();
+    if (!gameState.gameStarted || gameState.paused || (replay && !replayView?.playing)) {
+      updateStars(dt);
     }
     
-    // Continue loop
-    gameLoopRef.current = requestAnimationFrame(gameLoop);
-  }, [gameState, checkCollisions, updateParticles, updateStars]);
-
-  // Event handlers
-  const handleKeyDown = (e: KeyboardEvent) => {
-    keysRef.current[e.code] = true;
-    
-    if (e.code === 'KeyR' && (gameState.gameOver || gameState.gameWon)) {
-      resetGame();
-    }
-    if (e.code === 'Space') {
-      e.preventDefault();
-      setGameState(prev => ({ ...prev, paused: !prev.paused }));
-    }
+    // Clear canvas
+    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
     
-    // Toggle game mode with '0' key
-    if (e.code === 'Digit0') {
-      setGameState(prev => ({ ...prev, letterMode: !prev.letterMode }));
-      // Clear any existing targets when switching modes
-      if (targetBrick) {
-        targetBrick.isTarget = false;
-        setTargetBrick(null);
-        setShowLetterHint(false);
-      }
-    }
+    // Always draw background and UI
+    drawBackground(ctx);
     
-    // Handle letter key presses (only in letter mode)
-    if (gameState.letterMode && e.key.length === 1 && e.key.match(/[a-zA-Z]/)) {
-      const letter = e.key.toUpperCase();
-      setPressedKeys(prev => new Set([...prev, letter]));
-      
-      // Update the time when this key was pressed for all matching bricks
-      const currentTime = Date.now();
-      gameObjects.current.bricks.forEach(brick => {
-        if (brick.letter === letter) {
-          brick.lastKeyPressTime = currentTime;
+    // Only draw game elements if game has started
+    const match = currentMatch();
+    if (gameState.gameStarted && match) {
+      // Each player's game in its own half, clipped so nothing crosses over
+      match.players.forEach((engine, index) => {
+        ctx.save();
+        ctx.translate(index * CANVAS_WIDTH / 2, 0);
+        ctx.beginPath();
+        ctx.rect(0, 0, engine.config.width, CANVAS_HEIGHT);
+        ctx.clip();
+        drawBricks(ctx, engine);
+        drawCapsules(ctx, engine, alpha);
+        drawPaddle(ctx, engine, alpha);
+        if (trajectoryPreview && !gameState.gameOver) {
+          drawTrajectory(ctx, engine, alpha);
         }
+        drawBalls(ctx, engine, alpha);
+        ctx.restore();
       });
+      drawParticles(ctx);
+      drawCallouts(ctx);
+    } else if (gameState.gameStarted) {
+      const engine = engineRef.current;
+      drawBricks(ctx, engine);
+      drawCapsules(ctx, engine, alpha);
+      drawParticles(ctx);
+      drawCallouts(ctx);
+      drawPaddle(ctx, engine, alpha);
+      if (trajectoryPreview && !gameState.gameOver && !gameState.gameWon) {
+        drawTrajectory(ctx, engine, alpha);
+      }
+      drawBalls(ctx, engine, alpha);
     }
-  };
-
-  const handleKeyUp = (e: KeyboardEvent) => {
-    keysRef.current[e.code] = false;
     
-    // Handle letter key releases (only in letter mode)
-    if (gameState.letterMode && e.key.length === 1 && e.key.match(/[a-zA-Z]/)) {
-      const letter = e.key.toUpperCase();
-      setPressedKeys(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(letter);
-        return newSet;
-      });
-    }
+    // Always draw UI (handles both start screen and game UI)
+    drawUI(ctx, gameState, isMobile);
+    
+    // Continue loop
+    gameLoopRef.current = requestAnimationFrame(gameLoop);
+  }, [gameState, isMobile, layout, lessonIndex, lessonResult, gameReport, progress, replayView, raceView, trajectoryPreview, onScreenTyping, bindings, gamepad, showSettings, showControls, showGamepad, showRace, showLeaderboard, resetGame, handleEngineEvents, handleVersusEvents, watching, currentMatch, advanceReplay, advanceMatch, recordStep, takeAttacks, sendAttacks, held, syncHud, togglePause, addCallout, updateParticles, updateCallouts, updateStars]);
+
+  // Field coordinates of a pointer; the canvas is drawn scaled
+  const fieldPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / canvasScale, y: (e.clientY - rect.top) / canvasScale };
   };
 
-  // Touch event handlers for mobile
-  const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    if (!gameState.gameStarted || gameState.paused || gameState.gameOver || gameState.gameWon) return;
-    
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const rect = canvas.getBoundingClientRect();
-    const touch = e.touches[0];
-    const x = (touch.clientX - rect.left) / canvasScale;
-    const y = (touch.clientY - rect.top) / canvasScale;
+  // A finger or pen on the bottom of the field drags the paddle; on mobile
+  // without the on-screen keyboard a tap on a target brick types its letter.
+  // Two-player matches are keyboard only.
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!playing || gameState.versus || e.pointerType === 'mouse') return;
+    const { x, y } = fieldPoint(e);
     
-    // Check if touch is in bottom area for paddle control
     if (y > CANVAS_HEIGHT - 200) {
-      const paddle = gameObjects.current.paddle;
-      const moveStep = isMobile ? 40 : 30; // Larger step for mobile
-      const targetX = x < CANVAS_WIDTH / 2 ? 
-        Math.max(0, paddle.x - moveStep) : 
-        Math.min(CANVAS_WIDTH - paddle.width, paddle.x + moveStep);
-      paddle.x = targetX;
-    } else if (gameState.letterMode && isMobile) {
-      // Check if touch is on a brick
-      gameObjects.current.bricks.forEach(brick => {
-        if (brick.visible && brick.isTarget &&
-            x >= brick.x && x <= brick.x + brick.width &&
-            y >= brick.y && y <= brick.y + brick.height) {
-          // Mark brick as pressed
-          const currentTime = Date.now();
-          brick.lastKeyPressTime = currentTime;
-          setPressedKeys(new Set([brick.letter]));
+      dragPointerRef.current = e.pointerId;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      pointerRef.current.follow(x);
+    } else if (isTypingMode(gameState.mode) && isMobile && !onScreenTyping) {
+      // Check if touch is on a target brick
+      const brick = getTargets(engineRef.current).map(target => target.brick).find(target =>
+        target.visible &&
+        x >= target.x && x <= target.x + target.width &&
+        y >= target.y && y <= target.y + target.height);
+      if (brick) {
+        // In word mode each tap types the next letter of the word
+        const word = getBrickWord(engineRef.current, brick);
+        const letter = word ? word.text[word.typed] : brick.letter;
+        if (letter) {
+          pendingLettersRef.current.push(letter);
         }
-      });
+      }
     }
   };
 
-  const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    if (!gameState.gameStarted || gameState.paused || gameState.gameOver || gameState.gameWon) return;
-    
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const rect = canvas.getBoundingClientRect();
-    const touch = e.touches[0];
-    const x = (touch.clientX - rect.left) / canvasScale;
-    const y = (touch.clientY - rect.top) / canvasScale;
-    
-    // Only move paddle if touching in the control area
-    if (y > CANVAS_HEIGHT - 200) {
-      const paddle = gameObjects.current.paddle;
-      // Tap to move instead of drag
-      const moveStep = isMobile ? 40 : 30; // Larger step for mobile
-      const targetX = x < CANVAS_WIDTH / 2 ? 
-        Math.max(0, paddle.x - moveStep) : 
-        Math.min(CANVAS_WIDTH - paddle.width, paddle.x + moveStep);
-      paddle.x = targetX;
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!playing || gameState.versus) return;
+    if (e.pointerType !== 'mouse') {
+      if (e.pointerId === dragPointerRef.current) pointerRef.current.follow(fieldPoint(e).x);
+    } else if (pointer.mode === 'follow') {
+      pointerRef.current.follow(fieldPoint(e).x);
+    } else if (pointer.mode === 'trackpad') {
+      pointerRef.current.nudge(e.movementX / canvasScale * pointer.sensitivity, engineRef.current.paddle);
     }
   };
 
-  const handleTouchEnd = () => {
-    if (isMobile && gameState.letterMode) {
-      setPressedKeys(new Set());
-    }
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId === dragPointerRef.current) dragPointerRef.current = null;
   };
 
+  // Give the mouse pointer back whenever play stops
+  useEffect(() => {
+    if (!playing && document.pointerLockElement) document.exitPointerLock();
+  }, [playing]);
+
   // Detect mobile and handle resize
   useEffect(() => {
     const checkMobile = () => {
@@ -940,7 +1857,7 @@ const TypeBreakerGame: React.FC = () => {
       // Calculate scale to fit canvas on screen
       const maxWidth = window.innerWidth - 32; // 16px padding on each side
       const maxHeight = mobile ? 
-        window.innerHeight - 100 : // Less space needed on mobile
+        window.innerHeight - 100 - (virtualKeyboard ? VIRTUAL_KEYBOARD_HEIGHT : 0) : // Less space needed on mobile
         window.innerHeight - 200; // Space for UI elements on desktop
       const scaleX = maxWidth / CANVAS_WIDTH;
       const scaleY = maxHeight / CANVAS_HEIGHT;
@@ -951,11 +1868,10 @@ const TypeBreakerGame: React.FC = () => {
     checkMobile();
     window.addEventListener('resize', checkMobile);
     return () => window.removeEventListener('resize', checkMobile);
-  }, []);
+  }, [virtualKeyboard]);
 
   // Initialize game
   useEffect(() => {
-    gameObjects.current.bricks = initializeBricks();
     starsRef.current = initializeStars();
     
     return () => {
@@ -963,7 +1879,7 @@ const TypeBreakerGame: React.FC = () => {
         cancelAnimationFrame(gameLoopRef.current);
       }
     };
-  }, [initializeBricks, initializeStars]);
+  }, [initializeStars]);
 
   // Start game loop when game state changes
   useEffect(() => {
@@ -979,17 +1895,6 @@ const TypeBreakerGame: React.FC = () => {
     };
   }, [gameLoop]);
 
-  // Event listeners
-  useEffect(() => {
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-    
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, [gameState.gameOver, gameState.gameWon, gameState.letterMode, targetBrick, resetGame]);
-
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 p-4">
       <div className="mb-4 text-white text-center">
@@ -1000,16 +1905,46 @@ const TypeBreakerGame: React.FC = () => {
           <>
             {isMobile ? (
               <>
-                <p className="text-lg mb-2">Tap left/right side to move paddle</p>
-                <p className="text-sm mb-1">Letter Mode: Tap the highlighted block before the ball hits it!</p>
+                <p className="text-lg mb-2">Drag along the bottom of the field to move paddle</p>
+                {onScreenTyping ? (
+                  <>
+                    <p className="text-sm mb-1">Letter Mode: Type the letter on each block on the keyboard below!</p>
+                    <p className="text-sm mb-1">Word Mode: Type the whole highlighted word on the keyboard below!</p>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-sm mb-1">Letter Mode: Tap the highlighted block before the ball hits it!</p>
+                    <p className="text-sm mb-1">Word Mode: Tap the highlighted word once per letter!</p>
+                  </>
+                )}
                 <p className="text-sm mb-1">Classic Mode: Just break blocks with the ball!</p>
               </>
+            ) : gameState.versus ? (
+              <>
+                <p className="text-lg mb-2">
+                  Player 1: {actionKeysLabel(bindings, 'player1Left')} {actionKeysLabel(bindings, 'player1Right')} and the left-hand letters •
+                  Player 2: {actionKeysLabel(bindings, 'moveLeft')} {actionKeysLabel(bindings, 'moveRight')} and the right-hand letters
+                </p>
+                <p className="text-sm mb-1">Press the letter on your block before your ball hits it!</p>
+                <p className="text-sm">
+                  Clear your wall first to win, or outscore the other player when both are out •
+                  Press {actionKeysLabel(bindings, 'pause')} to pause
+                </p>
+              </>
             ) : (
               <>
-                <p className="text-lg mb-2">Use ← → arrow keys to move paddle</p>
+                <p className="text-lg mb-2">
+                  Use {actionKeysLabel(bindings, 'moveLeft')} {actionKeysLabel(bindings, 'moveRight')}
+                  {pointer.mode !== 'off' && ' or the mouse'} to move paddle
+                </p>
                 <p className="text-sm mb-1">Letter Mode: Press the letter on each block just before the ball hits it!</p>
+                <p className="text-sm mb-1">Word Mode: Type the whole highlighted word while the ball is on its way!</p>
                 <p className="text-sm mb-1">Classic Mode: Just break blocks with the ball!</p>
-                <p className="text-sm">Press 0 to switch modes • Press SPACE to pause • Press R to restart when game ends</p>
+                <p className="text-sm">
+                  Press {actionKeysLabel(bindings, 'toggleMode')} to switch modes •
+                  Press {actionKeysLabel(bindings, 'pause')} to pause •
+                  Press {actionKeysLabel(bindings, 'restart')} to restart when game ends
+                </p>
               </>
             )}
           </>
@@ -1023,9 +1958,11 @@ const TypeBreakerGame: React.FC = () => {
           height={CANVAS_HEIGHT}
           className="border-2 border-purple-500 rounded-lg shadow-2xl"
           tabIndex={0}
-          onTouchStart={handleTouchStart}
-          onTouchMove={handleTouchMove}
-          onTouchEnd={handleTouchEnd}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onClick={handleCanvasClick}
           style={{ touchAction: 'none' }}
         />
         
@@ -1035,18 +1972,219 @@ const TypeBreakerGame: React.FC = () => {
           </div>
         )}
         
-        {!gameState.gameStarted && (
-          <div className="absolute inset-0 flex items-end justify-center pb-20">
-            <button
-              onClick={startGame}
-              className="px-8 py-4 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-bold text-xl rounded-lg shadow-lg hover:from-pink-600 hover:to-purple-700 transition-all duration-200 transform hover:scale-105"
+        {!replayView && (!gameState.gameStarted || gameState.gameOver || gameState.gameWon) && (
+          <div className="absolute top-2 inset-x-2 flex flex-wrap items-center gap-2 text-sm">
+            <select
+              value={profile.id}
+              onChange={e => {
+                const next = profiles.find(candidate => candidate.id === e.target.value);
+                if (next) switchProfile(next);
+              }}
+              className="px-2 py-1 rounded bg-gray-700 text-white font-bold"
             >
-              Start Game
+              {profiles.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+            <button onClick={addProfile} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              New Player
             </button>
+            <div className="flex-1" />
+            <button onClick={() => setShowSettings(true)} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              Settings
+            </button>
+            <button onClick={() => setShowControls(true)} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              Controls
+            </button>
+            <button onClick={() => setShowGamepad(true)} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              Controller
+            </button>
+            <button onClick={() => setShowRace(true)} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              Online Race
+            </button>
+            <button onClick={() => setShowLeaderboard(true)} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              Leaderboard
+            </button>
+            <button onClick={downloadProfile} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              Export
+            </button>
+            <button onClick={() => importInputRef.current?.click()} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              Import
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={uploadProfile} className="hidden" />
+            {gameState.gameStarted && lastRecording() && (
+              <>
+                <button
+                  onClick={() => watchLastGame()}
+                  className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600"
+                >
+                  Watch Replay
+                </button>
+                <button onClick={downloadReplay} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+                  Save Replay
+                </button>
+              </>
+            )}
+            <button onClick={() => replayInputRef.current?.click()} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              Load Replay
+            </button>
+            <input ref={replayInputRef} type="file" accept="application/json,.json" onChange={e => uploadReplay(e, layoutId)} className="hidden" />
+          </div>
+        )}
+        
+        {replayView && (
+          <div className="absolute bottom-2 inset-x-2 flex items-center gap-2 text-sm text-white bg-black bg-opacity-60 rounded px-2 py-1">
+            <span className="font-bold text-red-400">REPLAY</span>
+            <button onClick={toggleReplay} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              {replayView.playing ? 'Pause' : 'Play'}
+            </button>
+            <select
+              value={replayView.speed}
+              onChange={e => setReplaySpeed(Number(e.target.value))}
+              className="px-2 py-1 rounded bg-gray-700 text-white font-bold"
+            >
+              {REPLAY_SPEEDS.map(speed => (
+                <option key={speed} value={speed}>{speed}×</option>
+              ))}
+            </select>
+            <input
+              type="range"
+              min={0}
+              max={replayView.length}
+              value={replayView.position}
+              onChange={e => seekTo(Number(e.target.value))}
+              className="flex-1"
+            />
+            <span className="tabular-nums">
+              {formatReplayTime(replayView.position * replayView.stepMs)} / {formatReplayTime(replayView.length * replayView.stepMs)}
+            </span>
+            <button onClick={stopReplay} className="px-3 py-1 rounded font-bold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              Close (Esc)
+            </button>
+          </div>
+        )}
+        
+        {!gameState.gameStarted && (
+          <div className="absolute inset-0 flex flex-col items-center justify-end pb-20 gap-4">
+            <div className="flex gap-2">
+              {Object.values(LAYOUTS).map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => selectLayout(option.id)}
+                  className={`px-3 py-1 rounded text-sm font-bold transition-colors ${
+                    option.id === layoutId ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+              <button
+                onClick={() => changeSettings({ adaptive: !adaptive })}
+                title="Deal your weak keys more often and tune the press window and ball speed to your success rate"
+                className={`px-3 py-1 rounded text-sm font-bold transition-colors ${
+                  adaptive ? 'bg-teal-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                Adaptive: {adaptive ? 'On' : 'Off'}
+              </button>
+              <button
+                onClick={() => changeSettings({ trajectoryPreview: !trajectoryPreview })}
+                title="Training aid for easy play: draw the ball's path up to the brick it will hit"
+                className={`px-3 py-1 rounded text-sm font-bold transition-colors ${
+                  trajectoryPreview ? 'bg-teal-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                Trajectory: {trajectoryPreview ? 'On' : 'Off'}
+              </button>
+              <button
+                onClick={() => changeSettings({
+                  wrongKeyPenalty: PENALTY_ORDER[(PENALTY_ORDER.indexOf(wrongKeyPenalty) + 1) % PENALTY_ORDER.length]
+                })}
+                title="What a wrong key costs in letter mode: points, a short lockout of the keyboard or a faster ball"
+                className={`px-3 py-1 rounded text-sm font-bold transition-colors ${
+                  wrongKeyPenalty !== 'none' ? 'bg-teal-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                Wrong Keys: {PENALTY_LABELS[wrongKeyPenalty]}
+              </button>
+              {isMobile && (
+                <button
+                  onClick={() => changeSettings({ virtualKeyboard: !virtualKeyboard })}
+                  title="Type on an on-screen keyboard instead of tapping the target blocks"
+                  className={`px-3 py-1 rounded text-sm font-bold transition-colors ${
+                    virtualKeyboard ? 'bg-teal-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  Keyboard: {virtualKeyboard ? 'On' : 'Off'}
+                </button>
+              )}
+            </div>
+            <div className="flex gap-4">
+              <button
+                onClick={startGame}
+                className="px-8 py-4 bg-gradient-to-r from-pink-500 to-purple-600 text-white font-bold text-xl rounded-lg shadow-lg hover:from-pink-600 hover:to-purple-700 transition-all duration-200 transform hover:scale-105"
+              >
+                Start Game
+              </button>
+              {!isMobile && (
+                <button
+                  onClick={startVersus}
+                  title="Two players at one keyboard: left-hand letters against right-hand letters, each on half of the field"
+                  className="px-8 py-4 bg-gradient-to-r from-teal-500 to-blue-600 text-white font-bold text-xl rounded-lg shadow-lg hover:from-teal-600 hover:to-blue-700 transition-all duration-200 transform hover:scale-105"
+                >
+                  Two Players
+                </button>
+              )}
+            </div>
           </div>
         )}
         
-        {isMobile && (gameState.gameOver || gameState.gameWon) && (
+        {showSettings && (
+          <SettingsPanel
+            settings={profile.settings.gameplay}
+            mobile={isMobile}
+            maxCols={maxCols}
+            onSave={saveGameplay}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+        
+        {showControls && (
+          <ControlsPanel
+            bindings={bindings}
+            pointer={pointer}
+            onSave={saveControls}
+            onClose={() => setShowControls(false)}
+          />
+        )}
+        
+        {showGamepad && (
+          <GamepadPanel
+            settings={gamepad}
+            onSave={saveGamepad}
+            onClose={() => setShowGamepad(false)}
+          />
+        )}
+        
+        {showRace && (
+          <RacePanel
+            status={raceView && RACE_STATUS[raceView.status](raceView)}
+            joining={raceView?.status === 'connecting' || raceView?.status === 'waiting'}
+            onJoin={joinRoom}
+            onClose={closeRacePanel}
+          />
+        )}
+        
+        {showLeaderboard && (
+          <Leaderboard
+            profiles={profiles}
+            activeProfile={profile}
+            initialMode={gameState.mode}
+            onClose={() => setShowLeaderboard(false)}
+          />
+        )}
+        
+        {isMobile && !replayView && (gameState.gameOver || gameState.gameWon) && (
           <div className="absolute inset-0 flex items-end justify-center pb-20">
             <button
               onClick={resetGame}
@@ -1058,15 +2196,80 @@ const TypeBreakerGame: React.FC = () => {
         )}
       </div>
       
-      {gameState.gameStarted && (
+      {gameState.gameStarted && gameState.versus && (
+        <div className="mt-4 text-white text-center">
+          <div className="grid grid-cols-2 gap-8 text-lg">
+            {gameState.versus.players.map((player, index) => (
+              <div key={index}>
+                {PLAYER_NAMES[index]}: <span className="font-bold text-yellow-400">{player.score}</span>
+                {' '}• Lives: <span className="font-bold text-red-400">{player.lives}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      
+      {gameState.gameStarted && !gameState.versus && (
         <div className="mt-4 text-white text-center">
           <div className="grid grid-cols-3 gap-8 text-lg">
             <div>Score: <span className="font-bold text-yellow-400">{gameState.score}</span></div>
             <div>Lives: <span className="font-bold text-red-400">{gameState.lives}</span></div>
-            <div>Level: <span className="font-bold text-blue-400">1</span></div>
+            <div>Level: <span className="font-bold text-blue-400">{gameState.level}</span></div>
           </div>
         </div>
       )}
+      
+      <div className="mt-3 flex items-center justify-center gap-4 text-sm text-white">
+        <button
+          onClick={e => {
+            changeAudio({ muted: !audio.muted });
+            e.currentTarget.blur();
+          }}
+          className={`px-3 py-1 rounded font-bold transition-colors ${
+            audio.muted ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-teal-600 text-white'
+          }`}
+        >
+          Sound: {audio.muted ? 'Off' : 'On'}
+        </button>
+        <label className="flex items-center gap-2">
+          Master
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={audio.masterVolume}
+            onChange={e => changeAudio({ masterVolume: Number(e.target.value) })}
+            onPointerUp={e => e.currentTarget.blur()}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Effects
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={audio.effectsVolume}
+            onChange={e => changeAudio({ effectsVolume: Number(e.target.value) })}
+            onPointerUp={e => e.currentTarget.blur()}
+          />
+        </label>
+        <button
+          onClick={e => {
+            changeAudio({ speakLetters: !audio.speakLetters });
+            e.currentTarget.blur();
+          }}
+          title="Accessibility: read out each new target letter in letter mode"
+          className={`px-3 py-1 rounded font-bold transition-colors ${
+            audio.speakLetters ? 'bg-teal-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+          }`}
+        >
+          Speak Letters: {audio.speakLetters ? 'On' : 'Off'}
+        </button>
+      </div>
+      
+      {showVirtualKeyboard && <VirtualKeyboard layout={layout} onKey={pressVirtualKey} />}
     </div>
   );
 };
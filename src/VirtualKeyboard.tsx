@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Finger, KeyDef, KeyboardLayout } from './engine';
+
+interface VirtualKeyboardProps {
+  layout: KeyboardLayout;
+  onKey: (key: KeyDef, shifted: boolean) => void;
+}
+
+// Height the keyboard takes at the bottom of the screen, in CSS pixels
+export const VIRTUAL_KEYBOARD_HEIGHT = 210;
+
+// Touch typing charts colour each finger's zone; both hands share the colours
+const FINGER_COLORS: Record<Finger, string> = {
+  leftPinky: 'bg-purple-800',
+  leftRing: 'bg-blue-800',
+  leftMiddle: 'bg-teal-800',
+  leftIndex: 'bg-yellow-800',
+  rightIndex: 'bg-yellow-800',
+  rightMiddle: 'bg-teal-800',
+  rightRing: 'bg-blue-800',
+  rightPinky: 'bg-purple-800'
+};
+
+// How long a tapped key stays lit
+const PRESS_FLASH_MS = 150;
+
+// The active layout as tappable keys for phones. Shift applies to the next
+// key only, as on a phone's own keyboard.
+const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({ layout, onKey }) => {
+  const [shifted, setShifted] = useState(false);
+  const [pressed, setPressed] = useState<string | null>(null);
+
+  // Pointer down rather than click, so there is no tap delay and no focus
+  // moves away from the game
+  const press = (e: React.PointerEvent<HTMLButtonElement>, key: KeyDef) => {
+    e.preventDefault();
+    onKey(key, shifted);
+    setShifted(false);
+    setPressed(key.code);
+    window.setTimeout(() => setPressed(current => (current === key.code ? null : current)), PRESS_FLASH_MS);
+  };
+
+  return (
+    <div
+      className="fixed bottom-0 inset-x-0 bg-gray-900 border-t border-purple-500 px-1 pt-2 pb-3 select-none"
+      style={{ height: VIRTUAL_KEYBOARD_HEIGHT, touchAction: 'manipulation' }}
+    >
+      {layout.rows.map((row, rowIndex) => (
+        <div key={rowIndex} className="flex justify-center gap-1 mb-1" style={{ paddingLeft: `${rowIndex * 2}%` }}>
+          {rowIndex === layout.rows.length - 1 && (
+            <button
+              onPointerDown={e => {
+                e.preventDefault();
+                setShifted(!shifted);
+              }}
+              className={`h-11 px-2 rounded text-sm font-bold ${shifted ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300'}`}
+            >
+              ⇧
+            </button>
+          )}
+          {row.map(key => (
+            <button
+              key={key.code}
+              onPointerDown={e => press(e, key)}
+              className={`h-11 flex-1 max-w-[2.75rem] rounded text-lg font-bold transition-transform ${
+                pressed === key.code ? 'bg-white text-gray-900 scale-110' : `${FINGER_COLORS[key.finger]} text-white`
+              }`}
+            >
+              {shifted ? key.glyph : key.glyph.toLowerCase()}
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VirtualKeyboard;
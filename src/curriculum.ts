@@ -0,0 +1,109 @@
+import { BOTTOM_ROW, DIGITS_ROW, HOME_ROW, KeyboardLayout, TOP_ROW } from './engine';
+
+// A lesson introduces a new set of keys on top of everything the earlier
+// lessons taught, and is passed with enough accuracy and broken bricks
+export interface Lesson {
+  id: string;
+  name: string;
+  newKeys: (layout: KeyboardLayout) => string;
+  minAccuracy: number; // 0..1, share of correct keystrokes
+  minBricks: number;
+}
+
+export interface LessonResult {
+  accuracy: number;
+  bricksBroken: number;
+  passed: boolean;
+}
+
+// How many lessons are open and the best result of each lesson, per layout
+export interface CurriculumProgress {
+  unlocked: number;
+  best: Record<string, LessonResult>;
+}
+
+const isLetter = (layout: KeyboardLayout, char: string) => layout.letters.includes(char);
+const isDigit = (char: string) => char >= '0' && char <= '9';
+
+const rowLetters = (layout: KeyboardLayout, row: number) =>
+  layout.rows[row].map(key => key.char).filter(char => isLetter(layout, char)).join('');
+
+export const LESSONS: Lesson[] = [
+  {
+    id: 'home-row',
+    name: 'Home Row',
+    newKeys: layout => rowLetters(layout, HOME_ROW),
+    minAccuracy: 0.95,
+    minBricks: 20
+  },
+  {
+    id: 'top-row',
+    name: 'Top Row',
+    // Letters sitting on the digits row (like Ё) are taught with the top row
+    newKeys: layout => rowLetters(layout, TOP_ROW) + rowLetters(layout, DIGITS_ROW),
+    minAccuracy: 0.95,
+    minBricks: 25
+  },
+  {
+    id: 'bottom-row',
+    name: 'Bottom Row',
+    newKeys: layout => rowLetters(layout, BOTTOM_ROW),
+    minAccuracy: 0.95,
+    minBricks: 30
+  },
+  {
+    id: 'digits',
+    name: 'Digits',
+    newKeys: layout => layout.rows[DIGITS_ROW].map(key => key.char).filter(isDigit).join(''),
+    minAccuracy: 0.9,
+    minBricks: 30
+  },
+  {
+    id: 'punctuation',
+    name: 'Punctuation',
+    newKeys: layout => layout.rows
+      .flat()
+      .map(key => key.char)
+      .filter(char => !isLetter(layout, char) && !isDigit(char))
+      .join(''),
+    minAccuracy: 0.9,
+    minBricks: 30
+  }
+];
+
+// Every key taught up to and including the given lesson
+export const lessonCharacters = (layout: KeyboardLayout, lessonIndex: number): string =>
+  LESSONS.slice(0, lessonIndex + 1).map(lesson => lesson.newKeys(layout)).join('');
+
+export const evaluateLesson = (
+  lesson: Lesson,
+  stats: { keystrokes: number; correctKeystrokes: number; bricksBroken: number }
+): LessonResult => {
+  const accuracy = stats.keystrokes === 0 ? 0 : stats.correctKeystrokes / stats.keystrokes;
+  return {
+    accuracy,
+    bricksBroken: stats.bricksBroken,
+    passed: accuracy >= lesson.minAccuracy && stats.bricksBroken >= lesson.minBricks
+  };
+};
+
+export const emptyProgress = (): CurriculumProgress => ({ unlocked: 1, best: {} });
+
+// Record a finished lesson: keep the best result and open the next lesson when passed
+export const recordLessonResult = (
+  progress: CurriculumProgress,
+  lessonIndex: number,
+  result: LessonResult
+): CurriculumProgress => {
+  const lesson = LESSONS[lessonIndex];
+  const best = progress.best[lesson.id];
+  const isBetter = !best || (result.passed && !best.passed) ||
+    (result.passed === best.passed && result.accuracy > best.accuracy);
+
+  return {
+    unlocked: result.passed
+      ? Math.min(LESSONS.length, Math.max(progress.unlocked, lessonIndex + 2))
+      : progress.unlocked,
+    best: isBetter ? { ...progress.best, [lesson.id]: result } : progress.best
+  };
+};
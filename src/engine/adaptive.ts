@@ -0,0 +1,74 @@
+import { rescaleBalls } from './balls';
+import type { AdaptiveState, EngineState } from './types';
+
+// Adaptive difficulty keeps the share of prompts the player gets right
+// inside this band by loosening or tightening the game
+const TARGET_SUCCESS_LOW = 0.7;
+const TARGET_SUCCESS_HIGH = 0.9;
+
+const RECENT_PROMPTS = 10; // outcomes the success rate is measured over
+const MIN_WINDOW_SCALE = 0.6;
+const MAX_WINDOW_SCALE = 2;
+const MIN_SPEED_SCALE = 0.75;
+const MAX_SPEED_SCALE = 1.25;
+// Keys weighted at least this much are the ones being drilled
+const FOCUS_WEIGHT = 1.5;
+
+export const createAdaptiveState = (): AdaptiveState => ({
+  recent: [],
+  windowScale: 1,
+  speedScale: 1
+});
+
+export const keyWeight = (state: EngineState, char: string): number =>
+  state.config.adaptive ? state.config.keyWeights[char] ?? 1 : 1;
+
+// Keys currently dealt more often than the rest, heaviest first
+export const focusKeys = (state: EngineState, limit = 3): string[] =>
+  [...new Set(state.config.characters)]
+    .filter(char => keyWeight(state, char) >= FOCUS_WEIGHT)
+    .sort((a, b) => keyWeight(state, b) - keyWeight(state, a))
+    .slice(0, limit);
+
+export const successRate = (adaptive: AdaptiveState): number | null =>
+  adaptive.recent.length === 0 ? null : adaptive.recent.filter(Boolean).length / adaptive.recent.length;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Feed one settled prompt into the tuning. Below the target band the press
+// window widens and the ball slows down; above it they tighten again.
+export const adaptDifficulty = (state: EngineState, hit: boolean) => {
+  if (!state.config.adaptive) return;
+  const { adaptive } = state;
+  adaptive.recent = [...adaptive.recent, hit].slice(-RECENT_PROMPTS);
+  const rate = successRate(adaptive);
+  if (rate === null || adaptive.recent.length < RECENT_PROMPTS / 2) return;
+
+  const previousSpeed = adaptive.speedScale;
+  if (rate < TARGET_SUCCESS_LOW) {
+    adaptive.windowScale = clamp(adaptive.windowScale * 1.1, MIN_WINDOW_SCALE, MAX_WINDOW_SCALE);
+    adaptive.speedScale = clamp(adaptive.speedScale * 0.95, MIN_SPEED_SCALE, MAX_SPEED_SCALE);
+  } else if (rate > TARGET_SUCCESS_HIGH) {
+    adaptive.windowScale = clamp(adaptive.windowScale * 0.95, MIN_WINDOW_SCALE, MAX_WINDOW_SCALE);
+    adaptive.speedScale = clamp(adaptive.speedScale * 1.03, MIN_SPEED_SCALE, MAX_SPEED_SCALE);
+  }
+
+  // Balls in flight change speed right away, keeping their direction
+  rescaleBalls(state, adaptive.speedScale / previousSpeed);
+};
+
+// One line for the HUD on what the adaptive mode is doing right now
+export const describeAdaptation = (state: EngineState): string | null => {
+  if (!state.config.adaptive) return null;
+  const { windowScale, speedScale } = state.adaptive;
+  const parts: string[] = [];
+
+  const focus = focusKeys(state);
+  if (focus.length > 0) parts.push(`drilling ${focus.join(' ')}`);
+
+  const percent = (scale: number) => `${scale > 1 ? '+' : ''}${Math.round((scale - 1) * 100)}%`;
+  if (Math.abs(windowScale - 1) >= 0.05) parts.push(`press window ${percent(windowScale)}`);
+  if (Math.abs(speedScale - 1) >= 0.05) parts.push(`ball speed ${percent(speedScale)}`);
+
+  return parts.length > 0 ? `Adaptive: ${parts.join(' • ')}` : 'Adaptive: learning your keys';
+};
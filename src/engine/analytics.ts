@@ -0,0 +1,64 @@
+import { adaptDifficulty } from './adaptive';
+import type { Ball, EngineState, KeyStats } from './types';
+
+export const emptyKeyStats = (): KeyStats => ({
+  attempts: 0,
+  hits: 0,
+  misses: 0,
+  wrongPresses: 0,
+  reactionTotal: 0,
+  reactions: 0
+});
+
+const keyStats = (state: EngineState, char: string): KeyStats => {
+  if (!state.stats.keys[char]) {
+    state.stats.keys[char] = emptyKeyStats();
+  }
+  return state.stats.keys[char];
+};
+
+// A new key is being asked for from now on, for the brick the ball is heading for
+export const promptKey = (state: EngineState, ball: Ball) => {
+  ball.promptedAt = state.time;
+};
+
+// The key a ball is asking for was pressed for the first time since it was prompted
+export const recordReaction = (state: EngineState, ball: Ball, char: string) => {
+  const stats = keyStats(state, char);
+  stats.reactionTotal += state.time - ball.promptedAt;
+  stats.reactions++;
+};
+
+export const recordWrongPress = (state: EngineState, expected: string) => {
+  keyStats(state, expected).wrongPresses++;
+};
+
+// The prompt for a key is over: pressed in time, or not
+export const settlePrompt = (state: EngineState, char: string, hit: boolean) => {
+  const stats = keyStats(state, char);
+  stats.attempts++;
+  if (hit) {
+    stats.hits++;
+  } else {
+    stats.misses++;
+  }
+  adaptDifficulty(state, hit);
+};
+
+export const addKeyStats = (a: KeyStats, b: KeyStats): KeyStats => ({
+  attempts: a.attempts + b.attempts,
+  hits: a.hits + b.hits,
+  misses: a.misses + b.misses,
+  wrongPresses: a.wrongPresses + b.wrongPresses,
+  reactionTotal: a.reactionTotal + b.reactionTotal,
+  reactions: a.reactions + b.reactions
+});
+
+// Share of the times a key was asked for that it was pressed correctly
+export const keyAccuracy = (stats: KeyStats): number | null => {
+  const total = stats.attempts + stats.wrongPresses;
+  return total === 0 ? null : stats.hits / total;
+};
+
+export const averageReaction = (stats: KeyStats): number | null =>
+  stats.reactions === 0 ? null : stats.reactionTotal / stats.reactions;
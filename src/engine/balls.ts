@@ -0,0 +1,66 @@
+import { randomRange } from './rng';
+import { levelBallSpeed } from './levels';
+import type { Ball, EngineState } from './types';
+
+// Ball speed while the slow-ball power-up lasts
+export const SLOW_BALL_SCALE = 0.65;
+
+// The level's ball speed, as tuned by adaptive difficulty and slowed by power-ups
+export const ballSpeed = (state: EngineState): number =>
+  levelBallSpeed(state) * state.adaptive.speedScale * (state.effects.slowBall !== undefined ? SLOW_BALL_SCALE : 1);
+
+// Random launch angle between -45 and 45 degrees from vertical, always upward
+export const getRandomBallVelocity = (state: EngineState): { dx: number; dy: number } => {
+  const angle = randomRange(state, -Math.PI / 4, Math.PI / 4);
+  const speed = ballSpeed(state);
+  return {
+    dx: Math.sin(angle) * speed,
+    dy: -Math.cos(angle) * speed
+  };
+};
+
+// A fresh ball served from the middle of the field
+export const createBall = (state: EngineState): Ball => {
+  const { config } = state;
+  const x = config.width / 2;
+  const y = config.height - 150; // Closer to paddle
+  const { dx, dy } = getRandomBallVelocity(state);
+  return {
+    id: state.nextBallId++,
+    x,
+    y,
+    prevX: x,
+    prevY: y,
+    dx,
+    dy,
+    size: config.ballSize,
+    speed: ballSpeed(state),
+    stuck: null,
+    targetId: null,
+    promptedAt: state.time
+  };
+};
+
+// Change the speed of every ball in play, keeping their directions
+export const rescaleBalls = (state: EngineState, ratio: number) => {
+  state.balls.forEach(ball => {
+    ball.speed *= ratio;
+    ball.dx *= ratio;
+    ball.dy *= ratio;
+  });
+};
+
+// Copy of the ball heading off at an angle from it, for multi-ball. It finds
+// its own target.
+export const splitBall = (state: EngineState, ball: Ball, angle: number): Ball => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    ...ball,
+    id: state.nextBallId++,
+    dx: ball.dx * cos - ball.dy * sin,
+    dy: ball.dx * sin + ball.dy * cos,
+    stuck: null,
+    targetId: null
+  };
+};
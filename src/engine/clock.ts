@@ -0,0 +1,23 @@
+// Time source for the game loop. The browser uses the high resolution timer,
+// tests and tools can drive time by hand.
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => performance.now()
+};
+
+export interface ManualClock extends Clock {
+  advance(ms: number): void;
+}
+
+export const createManualClock = (start = 0): ManualClock => {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    }
+  };
+};
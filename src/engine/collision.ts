@@ -0,0 +1,139 @@
+// Swept collision of a moving circle against axis-aligned rectangles. Instead
+// of testing for overlap after a move, the solver finds when during the move
+// the circle first touches a rectangle, so a fast ball can't skip through a
+// brick or touch two bricks at once.
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MovingCircle {
+  x: number;
+  y: number;
+  dx: number; // units per second
+  dy: number;
+  size: number; // radius
+}
+
+// First touch of a circle and a rectangle. The normal is a unit vector
+// pointing out of the rectangle at the touching point.
+export interface Contact {
+  time: number; // seconds from now
+  normalX: number;
+  normalY: number;
+}
+
+// Touching counts only when the circle is this far inside, so a circle resting
+// exactly against a face isn't hit again
+const EPSILON = 1e-6;
+
+// The circle already overlaps the rectangle: push out towards the nearest face
+// or corner. Null when they don't overlap.
+const overlapNormal = (circle: MovingCircle, rect: Rect): { normalX: number; normalY: number } | null => {
+  const right = rect.x + rect.width;
+  const bottom = rect.y + rect.height;
+  const nearestX = Math.max(rect.x, Math.min(circle.x, right));
+  const nearestY = Math.max(rect.y, Math.min(circle.y, bottom));
+  const offsetX = circle.x - nearestX;
+  const offsetY = circle.y - nearestY;
+  const distance = Math.hypot(offsetX, offsetY);
+  if (distance >= circle.size - EPSILON) return null;
+  if (distance > 0) return { normalX: offsetX / distance, normalY: offsetY / distance };
+
+  // The centre is inside the rectangle; leave through the closest face
+  const exits = [
+    { gap: circle.x - rect.x, normalX: -1, normalY: 0 },
+    { gap: right - circle.x, normalX: 1, normalY: 0 },
+    { gap: circle.y - rect.y, normalX: 0, normalY: -1 },
+    { gap: bottom - circle.y, normalX: 0, normalY: 1 }
+  ];
+  const exit = exits.reduce((best, candidate) => candidate.gap < best.gap ? candidate : best);
+  return { normalX: exit.normalX, normalY: exit.normalY };
+};
+
+// Earliest time within maxTime at which the circle touches the rectangle, or
+// null when it doesn't. A circle already overlapping and moving further in is
+// touching now; one moving out is left alone.
+export const sweepCircleRect = (circle: MovingCircle, rect: Rect, maxTime: number): Contact | null => {
+  const { x, y, dx, dy, size } = circle;
+
+  const overlap = overlapNormal(circle, rect);
+  if (overlap) {
+    return dx * overlap.normalX + dy * overlap.normalY < 0 ? { time: 0, ...overlap } : null;
+  }
+
+  // The circle's centre moving against the rectangle grown by the radius:
+  // a ray against a box, with rounded corners handled below
+  const right = rect.x + rect.width;
+  const bottom = rect.y + rect.height;
+  let enter = -Infinity;
+  let exit = Infinity;
+  let normalX = 0;
+  let normalY = 0;
+
+  if (dx === 0) {
+    if (x < rect.x - size || x > right + size) return null;
+  } else {
+    const near = ((dx > 0 ? rect.x - size : right + size) - x) / dx;
+    const far = ((dx > 0 ? right + size : rect.x - size) - x) / dx;
+    if (near > enter) {
+      enter = near;
+      normalX = dx > 0 ? -1 : 1;
+      normalY = 0;
+    }
+    exit = Math.min(exit, far);
+  }
+
+  if (dy === 0) {
+    if (y < rect.y - size || y > bottom + size) return null;
+  } else {
+    const near = ((dy > 0 ? rect.y - size : bottom + size) - y) / dy;
+    const far = ((dy > 0 ? bottom + size : rect.y - size) - y) / dy;
+    if (near > enter) {
+      enter = near;
+      normalX = 0;
+      normalY = dy > 0 ? -1 : 1;
+    }
+    exit = Math.min(exit, far);
+  }
+
+  if (enter > exit || exit < 0 || enter > maxTime) return null;
+  const time = Math.max(enter, 0);
+  const hitX = x + dx * time;
+  const hitY = y + dy * time;
+
+  // Beside a face: the grown box is exact there. Starting inside it there
+  // means the circle is just touching that face, having bounced off it.
+  const besideX = hitX >= rect.x && hitX <= right;
+  const besideY = hitY >= rect.y && hitY <= bottom;
+  if (besideX || besideY) return enter < 0 ? null : { time, normalX, normalY };
+
+  // In a corner the grown box is rounded: hit the circle around the corner
+  const cornerX = hitX < rect.x ? rect.x : right;
+  const cornerY = hitY < rect.y ? rect.y : bottom;
+  const offsetX = x - cornerX;
+  const offsetY = y - cornerY;
+  const a = dx * dx + dy * dy;
+  const b = 2 * (offsetX * dx + offsetY * dy);
+  const c = offsetX * offsetX + offsetY * offsetY - size * size;
+  const discriminant = b * b - 4 * a * c;
+  if (a === 0 || discriminant < 0) return null;
+
+  const cornerTime = (-b - Math.sqrt(discriminant)) / (2 * a);
+  if (cornerTime < 0 || cornerTime > maxTime) return null;
+  return {
+    time: cornerTime,
+    normalX: (x + dx * cornerTime - cornerX) / size,
+    normalY: (y + dy * cornerTime - cornerY) / size
+  };
+};
+
+// Bounce a velocity off a surface with the given normal, keeping its speed
+export const reflect = (circle: MovingCircle, normalX: number, normalY: number) => {
+  const along = circle.dx * normalX + circle.dy * normalY;
+  circle.dx -= 2 * along * normalX;
+  circle.dy -= 2 * along * normalY;
+};
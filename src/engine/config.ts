@@ -0,0 +1,143 @@
+import { BRICK_TYPES } from './levels';
+import { clamp, isNumber, isRecord, isWrongKeyPenalty } from './validation';
+import type { BrickType, EngineConfig, Level, LevelBrickKind } from './types';
+
+// Configs that come from outside the game, such as replay files or the other
+// player of a race, are read field by field. Numbers are clamped into the
+// ranges below, fields EngineConfig doesn't have are left behind, and a field
+// of the wrong type makes the whole config unreadable.
+
+type NumericField = {
+  [Field in keyof EngineConfig]: EngineConfig[Field] extends number ? Field : never;
+}[keyof EngineConfig];
+
+export interface ConfigRange {
+  min: number;
+  max: number;
+}
+
+// The settings screen offers the same ranges for the fields it lets the
+// player tune (ball speed, press window, wall size and lives)
+export const CONFIG_RANGES: Record<NumericField, ConfigRange> = {
+  width: { min: 200, max: 1600 },
+  height: { min: 200, max: 1200 },
+  paddleWidth: { min: 20, max: 400 },
+  paddleHeight: { min: 5, max: 60 },
+  paddleSpeed: { min: 60, max: 2000 },
+  ballSize: { min: 4, max: 40 },
+  ballSpeed: { min: 120, max: 600 },
+  brickWidth: { min: 20, max: 200 },
+  brickHeight: { min: 10, max: 80 },
+  brickRows: { min: 1, max: 10 },
+  brickCols: { min: 1, max: 10 },
+  letterPressWindow: { min: 200, max: 2000 },
+  wordPressWindow: { min: 500, max: 10000 },
+  predictionHorizon: { min: 500, max: 10000 },
+  lives: { min: 1, max: 20 },
+  powerUpChance: { min: 0, max: 1 }
+};
+
+const WHOLE_NUMBER_FIELDS: NumericField[] = ['brickRows', 'brickCols', 'lives'];
+
+// How often a character may come up at most, compared with the others
+const KEY_WEIGHT_RANGE: ConfigRange = { min: 1, max: 4 };
+
+const MAX_CHARACTERS = 200;
+const MAX_WORDS = 10000;
+const MAX_LEVELS = 50;
+const MAX_GRID_ROWS = 20;
+const MAX_GRID_COLS = 30;
+const MAX_BRICK_HP = 10;
+const MAX_BRICK_POINTS = 1000;
+
+// Most columns of bricks of the given width that fit across the field
+export const maxBrickCols = (fieldWidth: number, brickWidth: number, spacing = 4): number =>
+  Math.max(1, Math.floor((fieldWidth - spacing) / (brickWidth + spacing)));
+
+// An optional number: absent stays absent, anything else but a number is an error
+const optionalNumber = (value: unknown, range: ConfigRange): number | undefined | null => {
+  if (value === undefined) return undefined;
+  return isNumber(value) ? clamp(value, range) : null;
+};
+
+const optionalString = (value: unknown): string | undefined | null => {
+  if (value === undefined) return undefined;
+  return typeof value === 'string' ? value : null;
+};
+
+// A brick kind with a broken field is left out, so its cells stay empty.
+// Unknown brick types are built as normal bricks, as in level files.
+const normalizeBrickKind = (value: unknown): LevelBrickKind | null => {
+  if (!isRecord(value)) return null;
+  const type = value.type as BrickType;
+  const hp = optionalNumber(value.hp, { min: 1, max: MAX_BRICK_HP });
+  const points = optionalNumber(value.points, { min: 0, max: MAX_BRICK_POINTS });
+  const color = optionalString(value.color);
+  const letter = optionalString(value.letter);
+  const letters = optionalString(value.letters);
+  if (hp === null || points === null || color === null || letter === null || letters === null) return null;
+  const kind: LevelBrickKind = {};
+  if (BRICK_TYPES.includes(type)) kind.type = type;
+  if (color !== undefined) kind.color = color;
+  if (hp !== undefined) kind.hp = Math.round(hp);
+  if (points !== undefined) kind.points = points;
+  if (letter !== undefined) kind.letter = letter;
+  if (letters !== undefined) kind.letters = letters;
+  return kind;
+};
+
+const normalizeLevel = (value: unknown): Level | null => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !Array.isArray(value.grid) || !isRecord(value.bricks)) {
+    return null;
+  }
+  const grid = value.grid;
+  if (grid.length === 0 || grid.length > MAX_GRID_ROWS ||
+    !grid.every(row => typeof row === 'string' && row.length > 0 && row.length <= MAX_GRID_COLS)) {
+    return null;
+  }
+  const letters = optionalString(value.letters);
+  const ballSpeed = optionalNumber(value.ballSpeed, CONFIG_RANGES.ballSpeed);
+  const letterPressWindow = optionalNumber(value.letterPressWindow, CONFIG_RANGES.letterPressWindow);
+  if (letters === null || ballSpeed === null || letterPressWindow === null) return null;
+
+  const bricks = Object.fromEntries(Object.entries(value.bricks).flatMap(([cell, entry]) => {
+    const kind = normalizeBrickKind(entry);
+    return kind ? [[cell, kind] as const] : [];
+  }));
+  const level: Level = { name: value.name, grid: grid as string[], bricks };
+  if (letters !== undefined) level.letters = letters;
+  if (ballSpeed !== undefined) level.ballSpeed = ballSpeed;
+  if (letterPressWindow !== undefined) level.letterPressWindow = letterPressWindow;
+  return level;
+};
+
+// A config that is safe to create a game from, or null when it can't be read
+export const normalizeConfig = (value: unknown): EngineConfig | null => {
+  if (!isRecord(value)) return null;
+  const { characters, words, levels, adaptive, keyWeights, wrongKeyPenalty } = value;
+  if (typeof characters !== 'string' || characters.length === 0 || characters.length > MAX_CHARACTERS ||
+    !Array.isArray(words) || !Array.isArray(levels) || typeof adaptive !== 'boolean' || !isRecord(keyWeights) ||
+    !isWrongKeyPenalty(wrongKeyPenalty)) {
+    return null;
+  }
+
+  const numbers = {} as Record<NumericField, number>;
+  for (const field of Object.keys(CONFIG_RANGES) as NumericField[]) {
+    const number = value[field];
+    if (!isNumber(number)) return null;
+    const clamped = clamp(number, CONFIG_RANGES[field]);
+    numbers[field] = WHOLE_NUMBER_FIELDS.includes(field) ? Math.round(clamped) : clamped;
+  }
+  numbers.brickCols = Math.min(numbers.brickCols, maxBrickCols(numbers.width, numbers.brickWidth));
+
+  return {
+    ...numbers,
+    characters,
+    words: words.filter((word): word is string => typeof word === 'string' && word.length > 0).slice(0, MAX_WORDS),
+    levels: levels.slice(0, MAX_LEVELS).map(normalizeLevel).filter((level): level is Level => level !== null),
+    adaptive,
+    keyWeights: Object.fromEntries(Object.entries(keyWeights).flatMap(([char, weight]) =>
+      isNumber(weight) ? [[char, clamp(weight, KEY_WEIGHT_RANGE)] as const] : [])),
+    wrongKeyPenalty
+  };
+};
@@ -0,0 +1,216 @@
+import { describe, expect, it } from 'vitest';
+import { createGame, DEFAULT_CONFIG, isRunning, step } from './engine';
+import { FIXED_STEP_MS } from './loop';
+import type { Ball, Brick, EngineConfig, EngineInput, EngineState, GameEvent, Level } from './types';
+
+// No capsules, so nothing random falls onto the field during a test
+const config: EngineConfig = { ...DEFAULT_CONFIG, powerUpChance: 0 };
+
+const idle: EngineInput = { left: false, right: false, paddleShift: 0, letters: [] };
+
+// Send the only ball from a spot in a direction at its serving speed
+const aim = (state: EngineState, x: number, y: number, dx: number, dy: number): Ball => {
+  const ball = state.balls[0];
+  const length = Math.hypot(dx, dy);
+  Object.assign(ball, { x, y, prevX: x, prevY: y, stuck: null });
+  ball.dx = (dx / length) * ball.speed;
+  ball.dy = (dy / length) * ball.speed;
+  return ball;
+};
+
+// Step with no input until an event of the given type, or give up after a while
+const runUntil = (state: EngineState, type: GameEvent['type'], maxMs = 5000): GameEvent[] => {
+  const events: GameEvent[] = [];
+  for (let time = 0; time < maxMs && !events.some(event => event.type === type); time += FIXED_STEP_MS) {
+    events.push(...step(state, idle, FIXED_STEP_MS));
+  }
+  return events;
+};
+
+// A ball heading straight up into the middle of a brick from below
+const aimAtBrick = (state: EngineState, brick: Brick): Ball =>
+  aim(state, brick.x + brick.width / 2, brick.y + brick.height + 40, 0, -1);
+
+describe('breaking bricks', () => {
+  it('breaks a brick the ball touches in classic mode', () => {
+    const state = createGame(config, 1, 'classic');
+    const brick = state.bricks[state.bricks.length - 1];
+    aimAtBrick(state, brick);
+
+    const events = runUntil(state, 'brickBroken');
+
+    expect(events).toContainEqual({ type: 'brickBroken', brick });
+    expect(brick.visible).toBe(false);
+    expect(state.score).toBeGreaterThanOrEqual(brick.points);
+    expect(state.balls[0].dy).toBeGreaterThan(0);
+  });
+
+  it('bounces off a brick whose letter was not pressed in letter mode', () => {
+    const state = createGame(config, 1, 'letter');
+    const brick = state.bricks[state.bricks.length - 1];
+    aimAtBrick(state, brick);
+
+    const events = runUntil(state, 'ballBounced');
+
+    expect(events.some(event => event.type === 'brickBroken')).toBe(false);
+    expect(brick.visible).toBe(true);
+    expect(state.balls[0].dy).toBeGreaterThan(0);
+  });
+
+  it('breaks a brick whose letter was pressed just before impact', () => {
+    const state = createGame(config, 1, 'letter');
+    const brick = state.bricks[state.bricks.length - 1];
+    aimAtBrick(state, brick);
+
+    const events = step(state, { ...idle, letters: [brick.letter] }, FIXED_STEP_MS);
+    events.push(...runUntil(state, 'brickBroken'));
+
+    expect(events).toContainEqual({ type: 'brickBroken', brick });
+    expect(brick.visible).toBe(false);
+  });
+});
+
+describe('losing lives', () => {
+  // Falling past the right edge of the paddle, which stays on the left
+  const dropBall = (state: EngineState) => {
+    state.paddle.x = 0;
+    aim(state, config.width - 50, config.height - 80, 0, 1);
+  };
+
+  it('takes a life and serves a new ball when the last ball falls out', () => {
+    const state = createGame(config, 1, 'classic');
+    dropBall(state);
+
+    const events = runUntil(state, 'lifeLost');
+
+    expect(events).toContainEqual({ type: 'lifeLost', lives: config.lives - 1 });
+    expect(state.lives).toBe(config.lives - 1);
+    expect(state.balls).toHaveLength(1);
+    expect(state.balls[0].y).toBeLessThan(config.height);
+    expect(isRunning(state)).toBe(true);
+  });
+
+  it('ends the game when the last life is lost', () => {
+    const state = createGame({ ...config, lives: 1 }, 1, 'classic');
+    dropBall(state);
+
+    const events = runUntil(state, 'gameOver');
+
+    expect(events).toContainEqual({ type: 'lifeLost', lives: 0 });
+    expect(state.gameOver).toBe(true);
+    expect(isRunning(state)).toBe(false);
+    expect(step(state, idle, FIXED_STEP_MS)).toEqual([]);
+  });
+
+  it('keeps the ball in play when it lands on the paddle', () => {
+    const state = createGame(config, 1, 'classic');
+    const { paddle } = state;
+    aim(state, paddle.x + paddle.width / 2, paddle.y - 60, 0, 1);
+
+    const events = runUntil(state, 'ballBounced');
+
+    expect(events).toContainEqual({ type: 'ballBounced', surface: 'paddle' });
+    expect(state.lives).toBe(config.lives);
+    expect(state.balls[0].dy).toBeLessThan(0);
+  });
+});
+
+describe('a moving paddle', () => {
+  it('catches a ball it sweeps under within one step', () => {
+    const state = createGame(config, 1, 'classic');
+    const { paddle } = state;
+    paddle.x = 0;
+    // Just above the paddle's line, where the paddle will be halfway through the step
+    aim(state, 300, paddle.y - config.ballSize - 1, 0, 1);
+
+    const events = step(state, { ...idle, paddleShift: 500 }, FIXED_STEP_MS);
+
+    expect(paddle.x).toBe(500);
+    expect(events).toContainEqual({ type: 'ballBounced', surface: 'paddle' });
+    expect(state.balls[0].dy).toBeLessThan(0);
+  });
+
+  it('knocks aside a ball it runs into', () => {
+    const state = createGame(config, 1, 'classic');
+    const { paddle } = state;
+    paddle.x = 0;
+    aim(state, 300, paddle.y + paddle.height / 2, 0, 1);
+
+    const events = step(state, { ...idle, paddleShift: 500 }, FIXED_STEP_MS);
+
+    expect(events).toContainEqual({ type: 'ballBounced', surface: 'paddle' });
+    expect(state.balls[0].x).toBeCloseTo(paddle.x + paddle.width + config.ballSize);
+    // Shoved, not flung at the paddle's speed
+    expect(Math.hypot(state.balls[0].dx, state.balls[0].dy)).toBeCloseTo(state.balls[0].speed);
+  });
+});
+
+describe('power-ups', () => {
+  // A multi-ball capsule already resting on the paddle, caught on the next step
+  const dropMultiBall = (state: EngineState) => {
+    const { paddle } = state;
+    state.capsules.push({ type: 'multiBall', x: paddle.x, y: paddle.y, prevY: paddle.y, width: 36, height: 14 });
+  };
+
+  it('splits a ball in flight rather than one held on the paddle', () => {
+    const state = createGame(config, 1, 'classic');
+    const flying = { ...aim(state, 300, 300, 0, -1), id: state.nextBallId++ };
+    state.balls[0].stuck = { offset: 10, releaseAt: Infinity };
+    state.balls.push(flying);
+    dropMultiBall(state);
+
+    step(state, idle, FIXED_STEP_MS);
+
+    expect(state.balls).toHaveLength(4);
+    expect(state.balls[0].stuck).not.toBeNull();
+    state.balls.slice(2).forEach(ball => {
+      expect(ball.stuck).toBeNull();
+      expect(ball.y).toBeCloseTo(flying.y);
+    });
+  });
+
+  it('lets the capsule go when every ball is held on the paddle', () => {
+    const state = createGame(config, 1, 'classic');
+    state.balls[0].stuck = { offset: 10, releaseAt: Infinity };
+    dropMultiBall(state);
+
+    const events = step(state, idle, FIXED_STEP_MS);
+
+    expect(events).toContainEqual({ type: 'powerUpCaught', powerUp: 'multiBall' });
+    expect(state.balls).toHaveLength(1);
+  });
+});
+
+describe('winning', () => {
+  it('wins once the last brick of the wall is broken', () => {
+    const state = createGame(config, 1, 'classic');
+    const last = state.bricks[0];
+    state.bricks.forEach(brick => {
+      if (brick !== last) brick.visible = false;
+    });
+    aimAtBrick(state, last);
+
+    const events = runUntil(state, 'gameWon');
+
+    expect(events).toContainEqual({ type: 'brickBroken', brick: last });
+    expect(events).toContainEqual({ type: 'gameWon' });
+    expect(state.gameWon).toBe(true);
+    expect(isRunning(state)).toBe(false);
+  });
+
+  it('moves on to the next level instead when there is one', () => {
+    const level: Level = { name: 'Two bricks', grid: ['nn'], bricks: { n: {} } };
+    const state = createGame({ ...config, levels: [level, level] }, 1, 'classic');
+    state.bricks.slice(1).forEach(brick => {
+      brick.visible = false;
+    });
+    aimAtBrick(state, state.bricks[0]);
+
+    const events = runUntil(state, 'levelCleared');
+
+    expect(events).toContainEqual({ type: 'levelCleared', levelIndex: 0 });
+    expect(state.levelIndex).toBe(1);
+    expect(state.gameWon).toBe(false);
+    expect(state.bricks.some(brick => brick.visible)).toBe(true);
+  });
+});
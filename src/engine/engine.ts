@@ -0,0 +1,482 @@
+import { shuffle, weightedPick } from './rng';
+import { createAdaptiveState, keyWeight } from './adaptive';
+import { createBall } from './balls';
+import { awardReaction, breakStreak, createComboState, emptyScoreBreakdown, extendStreak, resetStreak, scoreBrick } from './scoring';
+import { isLockedOut, penalizeWrongKey } from './penalties';
+import { catchOnPaddle, clearPowerUps, dropCapsule, forgiveWrongKey, holdStuckBall, updatePowerUps } from './powerups';
+import { reflect } from './collision';
+import { findContact, predictTrajectory } from './trajectory';
+import { promptKey, recordReaction, recordWrongPress, settlePrompt } from './analytics';
+import type { Ball, BallTarget, Brick, EngineConfig, EngineInput, EngineState, GameEvent, GameMode, Word } from './types';
+import { assignWords, isWordArmed, resetWord, typeIntoWord } from './words';
+import { DEFAULT_LAYOUT_ID, LAYOUTS } from './layouts';
+import {
+  BRICK_COLORS,
+  buildLevelBricks,
+  currentLevel,
+  hasNextLevel,
+  isWallCleared,
+  levelLetterPressWindow
+} from './levels';
+
+export const DEFAULT_CONFIG: EngineConfig = {
+  width: 800,
+  height: 600,
+  paddleWidth: 100,
+  paddleHeight: 15,
+  paddleSpeed: 480,
+  ballSize: 12,
+  ballSpeed: 240,
+  brickWidth: 72,
+  brickHeight: 25,
+  brickRows: 6,
+  brickCols: 10,
+  letterPressWindow: 500,
+  wordPressWindow: 3000,
+  predictionHorizon: 4000,
+  lives: 10,
+  characters: LAYOUTS[DEFAULT_LAYOUT_ID].letters,
+  words: LAYOUTS[DEFAULT_LAYOUT_ID].words,
+  levels: [],
+  adaptive: false,
+  keyWeights: {},
+  powerUpChance: 0.12,
+  wrongKeyPenalty: 'score'
+};
+
+// Bricks of the current level, or a full generated wall when there are no levels
+export const initializeBricks = (state: EngineState): Brick[] => {
+  const level = currentLevel(state);
+  if (level) return buildLevelBricks(state, level);
+
+  const { width, brickWidth, brickHeight, brickRows, brickCols, characters } = state.config;
+  const bricks: Brick[] = [];
+
+  // Calculate spacing to fit all bricks perfectly
+  const totalBrickWidth = brickCols * brickWidth;
+  const totalSpacing = width - totalBrickWidth;
+  const spacing = totalSpacing / (brickCols + 1);
+
+  for (let row = 0; row < brickRows; row++) {
+    for (let col = 0; col < brickCols; col++) {
+      bricks.push({
+        id: bricks.length,
+        type: 'normal',
+        x: spacing + col * (brickWidth + spacing),
+        y: row * (brickHeight + 5) + 70,
+        width: brickWidth,
+        height: brickHeight,
+        color: BRICK_COLORS[row % BRICK_COLORS.length],
+        visible: true,
+        hp: 1,
+        maxHp: 1,
+        points: (brickRows - row) * 10,
+        letterPool: characters,
+        letter: '',
+        lastKeyPressTime: -Infinity,
+        wordId: null
+      });
+    }
+  }
+  return bricks;
+};
+
+// Put letters on the bricks: whole words in word mode, otherwise each brick
+// deals from a shuffled copy of its pool so letters repeat as little as
+// possible. Adaptive games draw weak keys more often instead.
+export const assignLetters = (state: EngineState) => {
+  if (state.mode === 'word') {
+    assignWords(state);
+    return;
+  }
+
+  const decks = new Map<string, { letters: string[]; next: number }>();
+  state.words = [];
+  state.bricks.forEach(brick => {
+    brick.wordId = null;
+    if (brick.type === 'steel') {
+      brick.letter = '';
+      return;
+    }
+    if (state.config.adaptive) {
+      brick.letter = weightedPick(state, [...brick.letterPool], char => keyWeight(state, char));
+      return;
+    }
+
+    let deck = decks.get(brick.letterPool);
+    if (!deck) {
+      deck = { letters: shuffle(state, [...brick.letterPool]), next: 0 };
+      decks.set(brick.letterPool, deck);
+    }
+    brick.letter = deck.letters[deck.next % deck.letters.length];
+    deck.next++;
+  });
+};
+
+// Back to a single ball served from the middle
+const resetBall = (state: EngineState) => {
+  state.nextBallId = 0;
+  state.balls = [createBall(state)];
+};
+
+export const createGame = (config: EngineConfig, seed: number, mode: GameMode = 'letter'): EngineState => {
+  const state: EngineState = {
+    config,
+    seed,
+    rngState: seed,
+    time: 0,
+    score: 0,
+    lives: config.lives,
+    levelIndex: 0,
+    gameOver: false,
+    gameWon: false,
+    mode,
+    paddle: {
+      x: config.width / 2 - config.paddleWidth / 2,
+      y: config.height - 40,
+      prevX: config.width / 2 - config.paddleWidth / 2,
+      width: config.paddleWidth,
+      height: config.paddleHeight,
+      speed: config.paddleSpeed
+    },
+    balls: [],
+    nextBallId: 0,
+    bricks: [],
+    capsules: [],
+    effects: {},
+    words: [],
+    lockedUntil: 0,
+    stats: { keystrokes: 0, correctKeystrokes: 0, bricksBroken: 0, keys: {} },
+    adaptive: createAdaptiveState(),
+    combo: createComboState(),
+    breakdown: emptyScoreBreakdown()
+  };
+  state.bricks = initializeBricks(state);
+  assignLetters(state);
+  resetBall(state);
+  return state;
+};
+
+export const isRunning = (state: EngineState): boolean => !state.gameOver && !state.gameWon;
+
+const ballTarget = (state: EngineState, ball: Ball): Brick | null =>
+  ball.targetId === null ? null : state.bricks[ball.targetId] ?? null;
+
+// Every ball's target, in the order of the balls. Two balls may share one.
+export const getTargets = (state: EngineState): BallTarget[] =>
+  state.balls.flatMap(ball => {
+    const brick = ballTarget(state, ball);
+    return brick ? [{ ball, brick }] : [];
+  });
+
+// The first ball's target: the word typed into in word mode
+export const getTargetBrick = (state: EngineState): Brick | null =>
+  getTargets(state)[0]?.brick ?? null;
+
+export const getBrickWord = (state: EngineState, brick: Brick): Word | null =>
+  brick.wordId === null ? null : state.words[brick.wordId] ?? null;
+
+export const isTypingMode = (mode: GameMode): boolean => mode !== 'classic';
+
+// A typed character as the upper case letter shown on bricks, and whether
+// Shift was held for it
+const readTyped = (typed: string) => ({
+  letter: typed.toUpperCase(),
+  shifted: typed !== typed.toLowerCase()
+});
+
+// Whether typing the letter counts for the brick; shift bricks need Shift held
+export const matchesBrick = (brick: Brick, letter: string, shifted: boolean): boolean =>
+  brick.letter === letter && (brick.type !== 'shift' || shifted);
+
+export const setMode = (state: EngineState, mode: GameMode) => {
+  const wasWordMode = state.mode === 'word';
+  state.mode = mode;
+  resetStreak(state);
+  state.balls.forEach(ball => {
+    ball.targetId = null;
+  });
+
+  // Word mode needs the remaining bricks regrouped into words and back
+  if (wasWordMode !== (mode === 'word')) {
+    assignLetters(state);
+  }
+};
+
+// Each ball's target is the brick it will actually hit next, walls included
+const updateTargets = (state: EngineState, events: GameEvent[]) => {
+  state.balls.forEach(ball => {
+    const closestId = isTypingMode(state.mode) ? predictTrajectory(state, ball).brick?.id ?? null : null;
+    if (closestId === ball.targetId) return;
+
+    const previous = ballTarget(state, ball);
+    ball.targetId = closestId;
+    const target = ballTarget(state, ball);
+    // Moving on to another brick of the same word keeps the current prompt
+    if (target && (target.wordId === null || target.wordId !== previous?.wordId)) {
+      promptKey(state, ball);
+    }
+    events.push({ type: 'targetChanged', ball, brick: target });
+  });
+};
+
+// Bricks closer than this to an exploding brick go up with it
+const BLAST_REACH = 12;
+
+const neighbours = (state: EngineState, brick: Brick): Brick[] =>
+  state.bricks.filter(other => other !== brick &&
+    other.x < brick.x + brick.width + BLAST_REACH &&
+    other.x + other.width > brick.x - BLAST_REACH &&
+    other.y < brick.y + brick.height + BLAST_REACH &&
+    other.y + other.height > brick.y - BLAST_REACH);
+
+// Break the brick whatever its hit points; explosive ones take their
+// neighbours with them, setting off further explosive bricks in turn
+const breakBrick = (state: EngineState, brick: Brick, events: GameEvent[]) => {
+  brick.hp = 0;
+  brick.visible = false;
+  scoreBrick(state, brick);
+  state.stats.bricksBroken++;
+  events.push({ type: 'brickBroken', brick });
+  dropCapsule(state, brick);
+
+  if (brick.type === 'explosive') {
+    events.push({ type: 'brickExploded', brick });
+    neighbours(state, brick).forEach(other => {
+      if (other.visible && other.type !== 'steel') breakBrick(state, other, events);
+    });
+  }
+};
+
+// Take one hit point off the brick and break it when none are left
+const hitBrick = (state: EngineState, brick: Brick, events: GameEvent[]) => {
+  if (!brick.visible || brick.type === 'steel') return;
+  brick.hp--;
+  if (brick.hp > 0) {
+    events.push({ type: 'brickHit', brick });
+    return;
+  }
+  breakBrick(state, brick, events);
+};
+
+// Morph bricks take a new letter whenever the ball bounces. Only in letter
+// mode; in word mode they spell their word like any other brick.
+const morphLetters = (state: EngineState) => {
+  if (state.mode !== 'letter') return;
+  state.bricks.forEach(brick => {
+    if (!brick.visible || brick.type !== 'morph') return;
+    const others = [...brick.letterPool].filter(char => char !== brick.letter);
+    if (others.length === 0) return;
+    brick.letter = weightedPick(state, others, char => keyWeight(state, char));
+    // A press for the old letter doesn't count for the new one
+    brick.lastKeyPressTime = -Infinity;
+    state.balls.forEach(ball => {
+      if (ball.targetId === brick.id) promptKey(state, ball);
+    });
+  });
+};
+
+// Build the next level's wall, keeping score and lives
+const advanceLevel = (state: EngineState, events: GameEvent[]) => {
+  events.push({ type: 'levelCleared', levelIndex: state.levelIndex });
+  state.levelIndex++;
+  state.bricks = initializeBricks(state);
+  state.capsules = [];
+  assignLetters(state);
+  resetBall(state);
+};
+
+// The ball touched a brick: the mode decides whether the brick takes a hit
+const collideWithBrick = (state: EngineState, brick: Brick, events: GameEvent[]) => {
+  // Steel only bounces the ball
+  if (brick.type === 'steel') return;
+  const word = getBrickWord(state, brick);
+
+  if (state.mode === 'classic') {
+    hitBrick(state, brick, events);
+  } else if (state.mode === 'letter') {
+    // The brick's letter must have been pressed within the time window
+    const pressWindow = levelLetterPressWindow(state, DEFAULT_CONFIG.letterPressWindow) * state.adaptive.windowScale;
+    const pressedInTime = state.time - brick.lastKeyPressTime <= pressWindow;
+    settlePrompt(state, brick.letter, pressedInTime);
+    if (pressedInTime) {
+      hitBrick(state, brick, events);
+    } else {
+      breakStreak(state, events);
+    }
+  } else if (word) {
+    // A freshly typed word hits all of its bricks at once; tougher
+    // bricks need the word typed again
+    if (isWordArmed(state, word)) {
+      word.brickIds.forEach(id => hitBrick(state, state.bricks[id], events));
+    } else if (word.typed < word.text.length) {
+      settlePrompt(state, word.text[word.typed], false);
+    }
+    resetWord(word);
+  }
+};
+
+// Contacts resolved in one step at most, in case the ball gets wedged
+const MAX_CONTACTS_PER_STEP = 8;
+
+// Move the ball through the step, stopping at each contact to bounce. Only
+// one contact is resolved at a time, so a ball arriving on the seam between
+// two bricks hits just one of them.
+const moveBall = (state: EngineState, ball: Ball, dt: number, events: GameEvent[]) => {
+  const { paddle } = state;
+  if (ball.stuck) {
+    holdStuckBall(state, ball);
+    return;
+  }
+  let remaining = dt;
+  // The paddle has already moved this step; the ball meets it on the way
+  const paddleSpeed = dt > 0 ? (paddle.x - paddle.prevX) / dt : 0;
+  const paddleAt = () => paddle.prevX + paddleSpeed * (dt - remaining);
+
+  for (let contacts = 0; remaining > 0 && contacts < MAX_CONTACTS_PER_STEP; contacts++) {
+    const contact = findContact(state, ball, remaining, { x: paddleAt(), dx: paddleSpeed });
+    const time = contact ? contact.time : remaining;
+    ball.x += ball.dx * time;
+    ball.y += ball.dy * time;
+    remaining -= time;
+    if (!contact) return;
+    events.push({
+      type: 'ballBounced',
+      surface: contact.with === 'wall' || contact.with === 'paddle' ? contact.with : 'brick'
+    });
+
+    if (contact.with === 'paddle' && contact.normalY < 0) {
+      // Add angle based on where the ball hits the paddle
+      const hitPos = Math.max(0, Math.min(1, (ball.x - paddleAt()) / paddle.width));
+      ball.dx = ball.speed * (hitPos - 0.5) * 2;
+      ball.dy = -Math.abs(ball.dy);
+      if (catchOnPaddle(state, ball, paddleAt())) return;
+    } else if (contact.with === 'paddle' && contact.normalX !== 0) {
+      // Knocked by the paddle's side. A paddle moving faster than the ball
+      // bounces away shoves it along to where the paddle ends the step.
+      reflect(ball, contact.normalX, contact.normalY);
+      if (contact.normalX * (ball.dx - paddleSpeed) <= 0) {
+        const side = contact.normalX > 0 ? paddle.x + paddle.width + ball.size : paddle.x - ball.size;
+        ball.x = Math.max(ball.size, Math.min(state.config.width - ball.size, side));
+        ball.y += ball.dy * remaining;
+        return;
+      }
+    } else {
+      // Walls, the paddle's underside and bricks (broken or not) all bounce the ball
+      reflect(ball, contact.normalX, contact.normalY);
+      if (contact.with !== 'wall' && contact.with !== 'paddle') {
+        collideWithBrick(state, contact.with, events);
+      }
+    }
+    morphLetters(state);
+  }
+
+  // Out of contacts: finish the step in a straight line
+  ball.x += ball.dx * remaining;
+  ball.y += ball.dy * remaining;
+};
+
+// Lose a life when the last ball falls off the bottom, and move on when the wall is cleared
+const checkBallAndWall = (state: EngineState, events: GameEvent[]) => {
+  const { config } = state;
+
+  // Balls that fell off screen are gone; a life goes with the last one
+  state.balls = state.balls.filter(ball => ball.y <= config.height);
+  if (state.balls.length === 0) {
+    clearPowerUps(state);
+    state.lives = Math.max(0, state.lives - 1);
+    events.push({ type: 'lifeLost', lives: state.lives });
+    if (state.lives === 0) {
+      state.gameOver = true;
+      events.push({ type: 'gameOver' });
+    }
+    resetBall(state);
+  }
+
+  // Check level and win condition
+  if (!state.gameOver && isWallCleared(state)) {
+    if (hasNextLevel(state)) {
+      advanceLevel(state, events);
+    } else {
+      state.gameWon = true;
+      events.push({ type: 'gameWon' });
+    }
+  }
+};
+
+// Advance the simulation by one step. Mutates the state and returns what happened.
+export const step = (state: EngineState, input: EngineInput, dtMs: number): GameEvent[] => {
+  const events: GameEvent[] = [];
+  if (!isRunning(state)) return events;
+
+  state.time += dtMs;
+  const dt = dtMs / 1000;
+  const { paddle, config } = state;
+
+  paddle.prevX = paddle.x;
+  state.balls.forEach(ball => {
+    ball.prevX = ball.x;
+    ball.prevY = ball.y;
+  });
+
+  if (state.mode === 'letter') {
+    // Stamp the press time on every brick carrying a pressed letter
+    input.letters.forEach(typed => {
+      if (isLockedOut(state)) return;
+      const { letter, shifted } = readTyped(typed);
+      // With several balls in play the key may be meant for any of their targets
+      const targets = getTargets(state);
+      const hit = targets.find(({ brick }) => matchesBrick(brick, letter, shifted));
+      if (hit) {
+        state.stats.keystrokes++;
+        state.stats.correctKeystrokes++;
+        // Only the first press after the prompt counts as the reaction,
+        // and towards the streak
+        if (hit.brick.lastKeyPressTime < hit.ball.promptedAt) {
+          recordReaction(state, hit.ball, letter);
+          awardReaction(state, hit.ball, hit.brick, events);
+          extendStreak(state, events);
+        }
+      } else if (targets.length > 0 && !forgiveWrongKey(state, events)) {
+        state.stats.keystrokes++;
+        recordWrongPress(state, targets[0].brick.letter);
+        breakStreak(state, events);
+        penalizeWrongKey(state, targets[0].brick, typed, events);
+      }
+
+      state.bricks.forEach(brick => {
+        if (matchesBrick(brick, letter, shifted)) {
+          brick.lastKeyPressTime = state.time;
+        }
+      });
+    });
+  } else if (state.mode === 'word') {
+    // Typing goes into the word the first ball is heading for
+    input.letters.forEach(typed => {
+      const { letter, shifted } = readTyped(typed);
+      const target = getTargets(state)[0];
+      const word = target && getBrickWord(state, target.brick);
+      if (word) {
+        typeIntoWord(state, target.ball, word, letter, shifted, events);
+      }
+    });
+  }
+
+  // Update paddle position
+  if (input.left && paddle.x > 0) {
+    paddle.x = Math.max(0, paddle.x - paddle.speed * dt);
+  }
+  if (input.right && paddle.x < config.width - paddle.width) {
+    paddle.x = Math.min(config.width - paddle.width, paddle.x + paddle.speed * dt);
+  }
+  if (input.paddleShift !== 0) {
+    paddle.x = Math.max(0, Math.min(config.width - paddle.width, paddle.x + input.paddleShift));
+  }
+
+  state.balls.forEach(ball => moveBall(state, ball, dt, events));
+  updatePowerUps(state, dt, events);
+  checkBallAndWall(state, events);
+  updateTargets(state, events);
+  return events;
+};
+
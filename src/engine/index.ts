@@ -0,0 +1,21 @@
+export * from './types';
+export * from './engine';
+export * from './config';
+export * from './validation';
+export * from './rng';
+export * from './clock';
+export * from './loop';
+export * from './collision';
+export * from './trajectory';
+export * from './balls';
+export * from './powerups';
+export * from './scoring';
+export * from './penalties';
+export * from './words';
+export * from './layouts';
+export * from './levels';
+export * from './analytics';
+export * from './adaptive';
+export * from './replay';
+export * from './versus';
+export * from './race';
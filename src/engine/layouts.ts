@@ -0,0 +1,142 @@
+import { RUSSIAN_WORD_LIST, WORD_LIST } from './words';
+
+export type LayoutId = 'qwerty' | 'jcuken' | 'dvorak' | 'colemak';
+
+export type Finger =
+  | 'leftPinky' | 'leftRing' | 'leftMiddle' | 'leftIndex'
+  | 'rightIndex' | 'rightMiddle' | 'rightRing' | 'rightPinky';
+
+export const FINGER_NAMES: Record<Finger, string> = {
+  leftPinky: 'left pinky',
+  leftRing: 'left ring',
+  leftMiddle: 'left middle',
+  leftIndex: 'left index',
+  rightIndex: 'right index',
+  rightMiddle: 'right middle',
+  rightRing: 'right ring',
+  rightPinky: 'right pinky'
+};
+
+// One physical key: its KeyboardEvent.code, the character it types in this
+// layout (upper case), the glyph we show for it and the finger that presses it
+export interface KeyDef {
+  code: string;
+  char: string;
+  glyph: string;
+  finger: Finger;
+}
+
+export interface KeyboardLayout {
+  id: LayoutId;
+  name: string;
+  lang: string; // BCP 47 language of the letters, for reading them out
+  rows: KeyDef[][]; // digits, top, home and bottom rows, left to right
+  letters: string; // characters dealt on bricks by default
+  words: readonly string[]; // word mode vocabulary, spelled with this layout's letters
+  codeMap: Record<string, string>;
+}
+
+export const DIGITS_ROW = 0;
+export const TOP_ROW = 1;
+export const HOME_ROW = 2;
+export const BOTTOM_ROW = 3;
+
+// Physical key positions of an ANSI keyboard, row by row
+const ROW_CODES: string[][] = [
+  ['Backquote', 'Digit1', 'Digit2', 'Digit3', 'Digit4', 'Digit5', 'Digit6', 'Digit7', 'Digit8', 'Digit9', 'Digit0', 'Minus', 'Equal'],
+  ['KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT', 'KeyY', 'KeyU', 'KeyI', 'KeyO', 'KeyP', 'BracketLeft', 'BracketRight'],
+  ['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK', 'KeyL', 'Semicolon', 'Quote'],
+  ['KeyZ', 'KeyX', 'KeyC', 'KeyV', 'KeyB', 'KeyN', 'KeyM', 'Comma', 'Period', 'Slash']
+];
+
+// Touch typing finger for each key position above; the finger zones are the
+// same in every layout
+const LP = 'leftPinky', LR = 'leftRing', LM = 'leftMiddle', LI = 'leftIndex';
+const RI = 'rightIndex', RM = 'rightMiddle', RR = 'rightRing', RP = 'rightPinky';
+const ROW_FINGERS: Finger[][] = [
+  [LP, LP, LR, LM, LI, LI, RI, RI, RM, RR, RP, RP, RP],
+  [LP, LR, LM, LI, LI, RI, RI, RM, RR, RP, RP, RP],
+  [LP, LR, LM, LI, LI, RI, RI, RM, RR, RP, RP],
+  [LP, LR, LM, LI, LI, RI, RI, RM, RR, RP]
+];
+
+const defineLayout = (
+  id: LayoutId,
+  name: string,
+  lang: string,
+  rowChars: string[],
+  letters: string,
+  words: readonly string[]
+): KeyboardLayout => {
+  const rows = ROW_CODES.map((codes, rowIndex) => {
+    const chars = [...rowChars[rowIndex]];
+    return codes.map((code, index) => ({
+      code,
+      char: chars[index],
+      glyph: chars[index],
+      finger: ROW_FINGERS[rowIndex][index]
+    }));
+  });
+  const codeMap: Record<string, string> = {};
+  rows.flat().forEach(key => {
+    codeMap[key.code] = key.char;
+  });
+  return { id, name, lang, rows, letters, words, codeMap };
+};
+
+export const LAYOUTS: Record<LayoutId, KeyboardLayout> = {
+  qwerty: defineLayout(
+    'qwerty',
+    'QWERTY (US)',
+    'en-US',
+    ['`1234567890-=', 'QWERTYUIOP[]', 'ASDFGHJKL;\'', 'ZXCVBNM,./'],
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+    WORD_LIST
+  ),
+  jcuken: defineLayout(
+    'jcuken',
+    'ЙЦУКЕН',
+    'ru-RU',
+    ['Ё1234567890-=', 'ЙЦУКЕНГШЩЗХЪ', 'ФЫВАПРОЛДЖЭ', 'ЯЧСМИТЬБЮ.'],
+    'АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯ',
+    RUSSIAN_WORD_LIST
+  ),
+  dvorak: defineLayout(
+    'dvorak',
+    'Dvorak',
+    'en-US',
+    ['`1234567890[]', '\',.PYFGCRL/=', 'AOEUIDHTNS-', ';QJKXBMWVZ'],
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+    WORD_LIST
+  ),
+  colemak: defineLayout(
+    'colemak',
+    'Colemak',
+    'en-US',
+    ['`1234567890-=', 'QWFPGJLUY;[]', 'ARSTDHNEIO\'', 'ZXCVBKM,./'],
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+    WORD_LIST
+  )
+};
+
+export const DEFAULT_LAYOUT_ID: LayoutId = 'qwerty';
+
+// For ids read from files and the network. Only the layouts themselves count,
+// not names every object inherits such as "constructor".
+export const isLayoutId = (value: unknown): value is LayoutId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LAYOUTS, value);
+
+// Character a key press types in the given layout. The physical key decides,
+// so a layout can be practised without switching the system keyboard; keys
+// the layout doesn't know fall back to the character the system produced.
+export const charForKey = (layout: KeyboardLayout, code: string, key: string): string | null => {
+  const mapped = layout.codeMap[code];
+  if (mapped) return mapped;
+  return key.length === 1 && key.trim() !== '' ? key.toUpperCase() : null;
+};
+
+export const findKey = (layout: KeyboardLayout, char: string): KeyDef | null =>
+  layout.rows.flat().find(key => key.char === char) ?? null;
+
+export const displayGlyph = (layout: KeyboardLayout, char: string): string =>
+  findKey(layout, char)?.glyph ?? char;
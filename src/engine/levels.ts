@@ -0,0 +1,107 @@
+import type { Brick, BrickType, EngineState, Level } from './types';
+
+export const BRICK_COLORS = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FECA57', '#FF9FF3'];
+
+export const BRICK_TYPES: readonly BrickType[] = ['normal', 'steel', 'explosive', 'shift', 'morph'];
+
+// Colours of the special bricks when the level doesn't pick one
+const TYPE_COLORS: Partial<Record<BrickType, string>> = {
+  steel: '#8E9AAF',
+  explosive: '#FF8C42'
+};
+
+export const EMPTY_CELL = '.';
+
+// Bricks stay in the upper part of the field, clear of the ball's launch point
+const BRICK_TOP = 70;
+const BRICK_AREA_HEIGHT = 240;
+const BRICK_GAP = 5;
+const MIN_SPACING = 4;
+
+export const currentLevel = (state: EngineState): Level | null =>
+  state.config.levels[state.levelIndex] ?? null;
+
+export const hasNextLevel = (state: EngineState): boolean =>
+  state.levelIndex + 1 < state.config.levels.length;
+
+// Levels state their speed for this config ball speed; a faster or slower
+// config speeds them up or slows them down by the same factor
+const LEVEL_BASE_BALL_SPEED = 240;
+
+export const levelBallSpeed = (state: EngineState): number => {
+  const levelSpeed = currentLevel(state)?.ballSpeed;
+  if (levelSpeed === undefined) return state.config.ballSpeed;
+  return levelSpeed * (state.config.ballSpeed / LEVEL_BASE_BALL_SPEED);
+};
+
+// Levels state their window on the desktop scale; the config's own window
+// (longer on mobile) stretches it by the same factor
+export const levelLetterPressWindow = (state: EngineState, defaultWindow: number): number => {
+  const levelWindow = currentLevel(state)?.letterPressWindow;
+  if (levelWindow === undefined) return state.config.letterPressWindow;
+  return levelWindow * (state.config.letterPressWindow / defaultWindow);
+};
+
+// Keep only the characters that can be typed in this game; an empty result
+// means the pool doesn't apply here (e.g. Latin letters on a Cyrillic layout)
+const restrictPool = (pool: string | undefined, characters: string): string | null => {
+  if (!pool) return null;
+  const allowed = [...pool].filter(char => characters.includes(char)).join('');
+  return allowed.length > 0 ? allowed : null;
+};
+
+// Only letters with an upper and a lower case can be typed with Shift
+const casedOnly = (pool: string): string =>
+  [...pool].filter(char => char.toLowerCase() !== char.toUpperCase()).join('');
+
+// The level is won once every brick that can break is broken
+export const isWallCleared = (state: EngineState): boolean =>
+  state.bricks.every(brick => !brick.visible || brick.type === 'steel');
+
+export const buildLevelBricks = (state: EngineState, level: Level): Brick[] => {
+  const { width, brickWidth, brickHeight, characters } = state.config;
+  const rows = level.grid.length;
+  const cols = Math.max(...level.grid.map(row => row.length));
+  const bricks: Brick[] = [];
+
+  // Shrink bricks when the grid is wider or taller than the default wall
+  const widthForBricks = Math.min(brickWidth, (width - (cols + 1) * MIN_SPACING) / cols);
+  const heightForBricks = Math.min(brickHeight, BRICK_AREA_HEIGHT / rows - BRICK_GAP);
+  const spacing = (width - cols * widthForBricks) / (cols + 1);
+  const levelPool = restrictPool(level.letters, characters) ?? characters;
+
+  level.grid.forEach((line, row) => {
+    [...line].forEach((cell, col) => {
+      const kind = level.bricks[cell];
+      if (cell === EMPTY_CELL || !kind) return;
+
+      const hp = Math.max(1, kind.hp ?? 1);
+      let type = kind.type && BRICK_TYPES.includes(kind.type) ? kind.type : 'normal';
+      let letterPool = restrictPool(kind.letter, characters) ?? restrictPool(kind.letters, characters) ?? levelPool;
+      if (type === 'shift') {
+        // Without a letter that has a case, a shift brick is an ordinary one
+        if (casedOnly(letterPool)) letterPool = casedOnly(letterPool);
+        else type = 'normal';
+      }
+
+      bricks.push({
+        id: bricks.length,
+        type,
+        x: spacing + col * (widthForBricks + spacing),
+        y: row * (heightForBricks + BRICK_GAP) + BRICK_TOP,
+        width: widthForBricks,
+        height: heightForBricks,
+        color: kind.color ?? TYPE_COLORS[type] ?? BRICK_COLORS[row % BRICK_COLORS.length],
+        visible: true,
+        hp,
+        maxHp: hp,
+        points: type === 'steel' ? 0 : kind.points ?? (rows - row) * 10,
+        letterPool,
+        letter: '',
+        lastKeyPressTime: -Infinity,
+        wordId: null
+      });
+    });
+  });
+  return bricks;
+};
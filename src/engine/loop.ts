@@ -0,0 +1,34 @@
+// Fixed-timestep accumulator. Rendering runs at whatever rate the display
+// gives us, while the simulation always advances in steps of the same length.
+export const FIXED_STEP_MS = 1000 / 120;
+
+// Longest frame we try to catch up on (e.g. after the tab was in background)
+const MAX_FRAME_MS = 250;
+
+export interface FixedTimestep {
+  stepMs: number;
+  accumulator: number;
+}
+
+export const createFixedTimestep = (stepMs = FIXED_STEP_MS): FixedTimestep => ({
+  stepMs,
+  accumulator: 0
+});
+
+// Run as many whole steps as the elapsed time allows. Returns how far
+// (0..1) the leftover time reaches into the next step, for interpolation.
+export const advanceFixedTimestep = (
+  timestep: FixedTimestep,
+  frameMs: number,
+  runStep: (stepMs: number) => void
+): number => {
+  timestep.accumulator += Math.min(Math.max(frameMs, 0), MAX_FRAME_MS);
+  while (timestep.accumulator >= timestep.stepMs) {
+    runStep(timestep.stepMs);
+    timestep.accumulator -= timestep.stepMs;
+  }
+  return timestep.accumulator / timestep.stepMs;
+};
+
+export const lerp = (from: number, to: number, alpha: number): number =>
+  from + (to - from) * alpha;
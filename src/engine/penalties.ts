@@ -0,0 +1,38 @@
+import { ballSpeed } from './balls';
+import type { Brick, EngineState, GameEvent } from './types';
+
+// What each kind of penalty takes from the player
+const WRONG_KEY_POINTS = 5;
+const WRONG_KEY_LOCKOUT_MS = 400; // keys are ignored this long
+const WRONG_KEY_SPEED_UP = 1.1;
+const MAX_SPEED_UP = 1.5; // wrong keys never push a ball past this times its normal speed
+
+// Keys don't count while a lockout from a wrong key lasts
+export const isLockedOut = (state: EngineState): boolean => state.time < state.lockedUntil;
+
+// A key that doesn't match any target was pressed in letter mode. Mashing
+// the keyboard costs whatever the config says.
+export const penalizeWrongKey = (state: EngineState, expected: Brick, typed: string, events: GameEvent[]) => {
+  const penalty = state.config.wrongKeyPenalty;
+  switch (penalty) {
+    case 'score': {
+      const points = Math.min(WRONG_KEY_POINTS, state.score);
+      state.score -= points;
+      state.breakdown.penalties += points;
+      break;
+    }
+    case 'lockout':
+      state.lockedUntil = state.time + WRONG_KEY_LOCKOUT_MS;
+      break;
+    case 'speedUp':
+      state.balls.forEach(ball => {
+        const ratio = Math.min(WRONG_KEY_SPEED_UP, MAX_SPEED_UP * ballSpeed(state) / ball.speed);
+        if (ratio <= 1) return;
+        ball.speed *= ratio;
+        ball.dx *= ratio;
+        ball.dy *= ratio;
+      });
+      break;
+  }
+  events.push({ type: 'wrongKey', brick: expected, typed, penalty });
+};
@@ -0,0 +1,172 @@
+import { random, weightedPick } from './rng';
+import { SLOW_BALL_SCALE, rescaleBalls, splitBall } from './balls';
+import type { Ball, Brick, EngineState, GameEvent, PowerUpType } from './types';
+
+interface PowerUpRule {
+  duration: number | null; // milliseconds; null for power-ups that act once
+  weight: number; // how often it drops compared to the others
+}
+
+export const POWER_UPS: Record<PowerUpType, PowerUpRule> = {
+  widePaddle: { duration: 15000, weight: 3 },
+  slowBall: { duration: 10000, weight: 3 },
+  multiBall: { duration: null, weight: 2 },
+  extraLife: { duration: null, weight: 1 },
+  stickyPaddle: { duration: 15000, weight: 2 },
+  shield: { duration: 20000, weight: 2 } // or until it forgives a wrong key
+};
+
+const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
+
+const CAPSULE_WIDTH = 36;
+const CAPSULE_HEIGHT = 14;
+const CAPSULE_SPEED = 150; // pixels per second
+
+const WIDE_PADDLE_SCALE = 1.5;
+const STICKY_HOLD_MS = 1500; // how long a caught ball stays on the paddle
+const MULTI_BALL_ANGLE = Math.PI / 8; // the new balls split off this far to each side
+const MAX_BALLS = 8;
+
+export const isEffectActive = (state: EngineState, powerUp: PowerUpType): boolean =>
+  state.effects[powerUp] !== undefined;
+
+// Milliseconds left of a timed power-up, 0 when it isn't running
+export const effectTimeLeft = (state: EngineState, powerUp: PowerUpType): number =>
+  Math.max(0, (state.effects[powerUp] ?? state.time) - state.time);
+
+// A broken brick sometimes drops a capsule from its middle
+export const dropCapsule = (state: EngineState, brick: Brick) => {
+  if (random(state) >= state.config.powerUpChance) return;
+  const y = brick.y + brick.height / 2 - CAPSULE_HEIGHT / 2;
+  state.capsules.push({
+    type: weightedPick(state, POWER_UP_TYPES, type => POWER_UPS[type].weight),
+    x: brick.x + brick.width / 2 - CAPSULE_WIDTH / 2,
+    y,
+    prevY: y,
+    width: CAPSULE_WIDTH,
+    height: CAPSULE_HEIGHT
+  });
+};
+
+const setPaddleWidth = (state: EngineState, width: number) => {
+  const { paddle, config } = state;
+  const center = paddle.x + paddle.width / 2;
+  paddle.width = width;
+  paddle.x = Math.max(0, Math.min(config.width - width, center - width / 2));
+  paddle.prevX = paddle.x;
+};
+
+const releaseBalls = (state: EngineState) => {
+  state.balls.forEach(ball => {
+    ball.stuck = null;
+  });
+};
+
+const applyPowerUp = (state: EngineState, powerUp: PowerUpType) => {
+  const { duration } = POWER_UPS[powerUp];
+  const wasActive = isEffectActive(state, powerUp);
+  if (duration !== null) {
+    // Catching one that is already running starts its time over
+    state.effects[powerUp] = state.time + duration;
+  }
+  if (wasActive) return;
+
+  switch (powerUp) {
+    case 'widePaddle':
+      setPaddleWidth(state, state.config.paddleWidth * WIDE_PADDLE_SCALE);
+      break;
+    case 'slowBall':
+      rescaleBalls(state, SLOW_BALL_SCALE);
+      break;
+    case 'multiBall': {
+      // Only a ball in flight splits; with every ball held on a sticky paddle
+      // the capsule is lost
+      const ball = state.balls.find(candidate => !candidate.stuck);
+      if (!ball) break;
+      const room = MAX_BALLS - state.balls.length;
+      [-MULTI_BALL_ANGLE, MULTI_BALL_ANGLE].slice(0, Math.max(0, room)).forEach(angle => {
+        state.balls.push(splitBall(state, ball, angle));
+      });
+      break;
+    }
+    case 'extraLife':
+      state.lives++;
+      break;
+  }
+};
+
+const endEffect = (state: EngineState, powerUp: PowerUpType) => {
+  delete state.effects[powerUp];
+  switch (powerUp) {
+    case 'widePaddle':
+      setPaddleWidth(state, state.config.paddleWidth);
+      break;
+    case 'slowBall':
+      rescaleBalls(state, 1 / SLOW_BALL_SCALE);
+      break;
+    case 'stickyPaddle':
+      releaseBalls(state);
+      break;
+  }
+};
+
+// Let the capsules fall, hand out the ones the paddle catches and run out
+// the timed effects
+export const updatePowerUps = (state: EngineState, dt: number, events: GameEvent[]) => {
+  const { paddle, config } = state;
+  state.capsules = state.capsules.filter(capsule => {
+    capsule.prevY = capsule.y;
+    capsule.y += CAPSULE_SPEED * dt;
+    const caught = capsule.y + capsule.height >= paddle.y &&
+      capsule.y <= paddle.y + paddle.height &&
+      capsule.x + capsule.width >= paddle.x &&
+      capsule.x <= paddle.x + paddle.width;
+    if (caught) {
+      applyPowerUp(state, capsule.type);
+      events.push({ type: 'powerUpCaught', powerUp: capsule.type });
+    }
+    return !caught && capsule.y <= config.height;
+  });
+
+  POWER_UP_TYPES.forEach(powerUp => {
+    const endsAt = state.effects[powerUp];
+    if (endsAt !== undefined && state.time >= endsAt) {
+      endEffect(state, powerUp);
+      events.push({ type: 'powerUpExpired', powerUp });
+    }
+  });
+};
+
+// Losing a life takes every power-up away
+export const clearPowerUps = (state: EngineState) => {
+  state.capsules = [];
+  POWER_UP_TYPES.forEach(powerUp => {
+    if (isEffectActive(state, powerUp)) endEffect(state, powerUp);
+  });
+};
+
+// A ball landing on a sticky paddle stays there for a moment, moving with
+// the paddle, then leaves in the direction it was given. Returns whether the
+// ball was caught. paddleX is where the paddle was when the ball landed.
+export const catchOnPaddle = (state: EngineState, ball: Ball, paddleX = state.paddle.x): boolean => {
+  if (!isEffectActive(state, 'stickyPaddle')) return false;
+  ball.stuck = { offset: ball.x - paddleX, releaseAt: state.time + STICKY_HOLD_MS };
+  return true;
+};
+
+// Keep a stuck ball on the paddle until it is released
+export const holdStuckBall = (state: EngineState, ball: Ball) => {
+  if (!ball.stuck) return;
+  const { paddle } = state;
+  ball.x = paddle.x + Math.min(ball.stuck.offset, paddle.width);
+  ball.y = paddle.y - ball.size;
+  if (state.time >= ball.stuck.releaseAt) ball.stuck = null;
+};
+
+// A shield in effect takes the blame for one wrong key. Returns whether it did.
+export const forgiveWrongKey = (state: EngineState, events: GameEvent[]): boolean => {
+  if (!isEffectActive(state, 'shield')) return false;
+  delete state.effects.shield;
+  events.push({ type: 'shieldUsed' });
+  return true;
+};
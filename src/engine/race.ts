@@ -0,0 +1,82 @@
+import { shuffle } from './rng';
+import type { Brick, EngineState } from './types';
+
+// Head-to-head races: both players clear the same seeded wall, and a run of
+// correct key presses pushes a row of bricks into the other player's wall
+
+// Every this many correct presses in a row send one row
+export const ATTACK_STREAK = 10;
+
+// Rows sent by an opponent look like scrap, so they stand out from the wall
+const ATTACK_ROW_COLOR = '#A0AEC0';
+const ATTACK_ROW_POINTS = 10;
+
+// The wall never grows past this share of the field height, which leaves the
+// ball room to reach the paddle
+const ATTACK_FLOOR = 0.6;
+
+const ROW_GAP = 5;
+
+// Rows earned by a streak going from one length to another
+export const attackRowsEarned = (before: number, after: number): number =>
+  after > before ? Math.floor(after / ATTACK_STREAK) - Math.floor(before / ATTACK_STREAK) : 0;
+
+// Bricks still to break before the wall is cleared
+export const bricksLeft = (state: EngineState): number =>
+  state.bricks.filter(brick => brick.visible && brick.type !== 'steel').length;
+
+// Push the wall down by a row and fill the top with fresh letter bricks.
+// Returns false when the wall is already as low as it may go.
+export const addAttackRow = (state: EngineState): boolean => {
+  const { width, brickWidth, brickHeight, brickCols, characters } = state.config;
+  const visible = state.bricks.filter(brick => brick.visible);
+  if (visible.length === 0) return false;
+  const top = Math.min(...visible.map(brick => brick.y));
+  const bottom = Math.max(...visible.map(brick => brick.y + brick.height));
+  const pitch = brickHeight + ROW_GAP;
+  if (bottom + pitch > state.config.height * ATTACK_FLOOR) return false;
+
+  state.bricks.forEach(brick => {
+    brick.y += pitch;
+  });
+
+  const spacing = (width - brickCols * brickWidth) / (brickCols + 1);
+  const letters = shuffle(state, [...characters]);
+  for (let col = 0; col < brickCols; col++) {
+    const brick: Brick = {
+      id: state.bricks.length, // bricks are looked up by id as an index
+      type: 'normal',
+      x: spacing + col * (brickWidth + spacing),
+      y: top,
+      width: brickWidth,
+      height: brickHeight,
+      color: ATTACK_ROW_COLOR,
+      visible: true,
+      hp: 1,
+      maxHp: 1,
+      points: ATTACK_ROW_POINTS,
+      letterPool: characters,
+      letter: letters[col % letters.length],
+      lastKeyPressTime: -Infinity,
+      wordId: null
+    };
+    state.bricks.push(brick);
+  }
+
+  // A ball the wall moved onto is put back underneath it, top row first so
+  // it ends up below every brick it touched
+  const wall = state.bricks.filter(brick => brick.visible).sort((a, b) => a.y - b.y);
+  state.balls.forEach(ball => {
+    if (ball.stuck) return;
+    wall.forEach(brick => {
+      const overlaps = ball.x > brick.x - ball.size && ball.x < brick.x + brick.width + ball.size &&
+        ball.y > brick.y - ball.size && ball.y < brick.y + brick.height + ball.size;
+      if (overlaps) {
+        ball.y = brick.y + brick.height + ball.size;
+        ball.prevY = ball.y;
+        ball.dy = Math.abs(ball.dy);
+      }
+    });
+  });
+  return true;
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createGame, DEFAULT_CONFIG, step } from './engine';
+import { FIXED_STEP_MS } from './loop';
+import { createRecorder, createReplay, parseRecording, recordInput, Recording, seekReplay, serializeRecording } from './replay';
+import type { EngineInput } from './types';
+
+// A short letter-mode game with the paddle moving about and some typing
+const recordGame = (): Recording => {
+  const state = createGame(DEFAULT_CONFIG, 42, 'letter');
+  const recorder = createRecorder(state, 'qwerty');
+  for (let index = 0; index < 600; index++) {
+    const input: EngineInput = {
+      left: index % 200 < 60,
+      right: index % 200 > 140,
+      paddleShift: index === 300 ? 25 : 0,
+      letters: index % 40 === 0 ? [...state.config.characters.slice(index % 26, index % 26 + 2)] : []
+    };
+    recordInput(recorder, input);
+    step(state, input, FIXED_STEP_MS);
+  }
+  return recorder.recording;
+};
+
+// The file of a recording with some fields replaced
+const file = (recording: Recording, fields: Record<string, unknown>): string =>
+  JSON.stringify({ ...JSON.parse(serializeRecording(recording)), ...fields });
+
+describe('parseRecording', () => {
+  it('reads back a saved game that plays out the same', () => {
+    const recording = recordGame();
+    const parsed = parseRecording(serializeRecording(recording));
+    expect(parsed).toEqual(recording);
+
+    const original = seekReplay(createReplay(recording), recording.steps);
+    const replayed = seekReplay(createReplay(parsed), parsed.steps);
+    expect(replayed.score).toBe(original.score);
+    expect(replayed.balls).toEqual(original.balls);
+  });
+
+  it('ignores a layout that is not one of the layouts', () => {
+    const recording = recordGame();
+    expect(parseRecording(file(recording, { layoutId: 'constructor' })).layoutId).toBeUndefined();
+    expect(parseRecording(file(recording, { layoutId: 'dvorak' })).layoutId).toBe('dvorak');
+  });
+
+  it('turns away a replay without a usable config', () => {
+    const recording = recordGame();
+    [null, [], {}, { ...DEFAULT_CONFIG, ballSpeed: 'fast' }, { ...DEFAULT_CONFIG, characters: '' }].forEach(config => {
+      expect(() => parseRecording(file(recording, { config }))).toThrow('not a Type Breaker replay');
+    });
+  });
+
+  it('keeps the config within the ranges the game supports', () => {
+    const recording = recordGame();
+    const { config } = parseRecording(file(recording, {
+      config: { ...DEFAULT_CONFIG, ballSpeed: 1e9, lives: -3, brickRows: 2.6, extra: 'dropped' }
+    }));
+    expect(config.ballSpeed).toBe(600);
+    expect(config.lives).toBe(1);
+    expect(config.brickRows).toBe(3);
+    expect(config).not.toHaveProperty('extra');
+  });
+
+  it('turns away inputs that are not [steps, kind, value]', () => {
+    const recording = recordGame();
+    [[1, 'l'], [-1, 'l', 1], [1.5, 's', 3], [0, 'k', 5], [0, 'l', 2], [0, 'm', 'chess'], [0, 'x', 0], 'input', null]
+      .forEach(input => {
+        expect(() => parseRecording(file(recording, { inputs: [input] }))).toThrow('not a Type Breaker replay');
+      });
+  });
+
+  it('tells older and newer files apart from files that are not replays', () => {
+    const recording = recordGame();
+    expect(() => parseRecording('{')).toThrow('not valid JSON');
+    expect(() => parseRecording('[]')).toThrow('not a Type Breaker replay');
+    expect(() => parseRecording(file(recording, { version: recording.version + 1 }))).toThrow('newer version');
+    expect(() => parseRecording(file(recording, { version: recording.version - 1 }))).toThrow('older version');
+  });
+});
@@ -0,0 +1,217 @@
+import { normalizeConfig } from './config';
+import { createGame, setMode, step } from './engine';
+import { FIXED_STEP_MS } from './loop';
+import { isLayoutId } from './layouts';
+import type { LayoutId } from './layouts';
+import { isCount, isGameMode, isNumber, isRecord } from './validation';
+import type { EngineConfig, EngineInput, EngineState, GameEvent, GameMode } from './types';
+
+// Bumped when the file format or the physics change; a replay only plays
+// back right on the engine that recorded it
+export const RECORDING_VERSION = 9;
+
+// One change of input, applied just before the given step runs:
+// 'l' / 'r' - arrow held (1) or released (0)
+// 's' - extra paddle shift in pixels, for this step only
+// 'k' - characters typed, for this step only
+// 'm' - game mode switched
+export type RecordedInput =
+  | [step: number, kind: 'l' | 'r', held: 0 | 1]
+  | [step: number, kind: 's', pixels: number]
+  | [step: number, kind: 'k', characters: string]
+  | [step: number, kind: 'm', mode: GameMode];
+
+// A whole game as its starting conditions plus the inputs that drove it.
+// Replaying the inputs through the engine reproduces the game exactly.
+export interface Recording {
+  version: number;
+  seed: number;
+  mode: GameMode;
+  config: EngineConfig;
+  stepMs: number;
+  steps: number; // steps run so far
+  inputs: RecordedInput[];
+  layoutId?: LayoutId; // glyphs to show the game with
+  date?: number; // milliseconds since the epoch, when recording started
+}
+
+// Records a game as it is played. Remembers the held arrows so that only
+// changes of input need to be stored.
+export interface Recorder {
+  recording: Recording;
+  left: boolean;
+  right: boolean;
+}
+
+// Start recording a game that was just created
+export const createRecorder = (state: EngineState, layoutId?: LayoutId): Recorder => ({
+  recording: {
+    version: RECORDING_VERSION,
+    seed: state.seed,
+    mode: state.mode,
+    config: state.config,
+    stepMs: FIXED_STEP_MS,
+    steps: 0,
+    inputs: [],
+    layoutId,
+    date: Date.now()
+  },
+  left: false,
+  right: false
+});
+
+// Note the input of the step about to run
+export const recordInput = (recorder: Recorder, input: EngineInput) => {
+  const { recording } = recorder;
+  const at = recording.steps;
+  if (input.left !== recorder.left) recording.inputs.push([at, 'l', input.left ? 1 : 0]);
+  if (input.right !== recorder.right) recording.inputs.push([at, 'r', input.right ? 1 : 0]);
+  if (input.paddleShift !== 0) recording.inputs.push([at, 's', input.paddleShift]);
+  if (input.letters.length > 0) recording.inputs.push([at, 'k', input.letters.join('')]);
+  recorder.left = input.left;
+  recorder.right = input.right;
+  recording.steps++;
+};
+
+// The mode was switched between steps
+export const recordModeChange = (recorder: Recorder, mode: GameMode) => {
+  recorder.recording.inputs.push([recorder.recording.steps, 'm', mode]);
+};
+
+export interface ReplayPlayer {
+  recording: Recording;
+  state: EngineState;
+  stepIndex: number; // next step to run
+  inputIndex: number; // next recorded input to apply
+  left: boolean;
+  right: boolean;
+}
+
+export const createReplay = (recording: Recording): ReplayPlayer => ({
+  recording,
+  state: createGame(recording.config, recording.seed, recording.mode),
+  stepIndex: 0,
+  inputIndex: 0,
+  left: false,
+  right: false
+});
+
+export const isReplayFinished = (player: ReplayPlayer): boolean =>
+  player.stepIndex >= player.recording.steps;
+
+// Run the next recorded step
+export const stepReplay = (player: ReplayPlayer): GameEvent[] => {
+  if (isReplayFinished(player)) return [];
+  const { recording } = player;
+  const input: EngineInput = { left: player.left, right: player.right, paddleShift: 0, letters: [] };
+
+  while (player.inputIndex < recording.inputs.length && recording.inputs[player.inputIndex][0] <= player.stepIndex) {
+    const recorded = recording.inputs[player.inputIndex];
+    switch (recorded[1]) {
+      case 'l':
+        player.left = input.left = recorded[2] === 1;
+        break;
+      case 'r':
+        player.right = input.right = recorded[2] === 1;
+        break;
+      case 's':
+        input.paddleShift += recorded[2];
+        break;
+      case 'k':
+        input.letters.push(...recorded[2]);
+        break;
+      case 'm':
+        setMode(player.state, recorded[2]);
+        break;
+    }
+    player.inputIndex++;
+  }
+
+  player.stepIndex++;
+  return step(player.state, input, recording.stepMs);
+};
+
+// Jump to a step. Going back replays from the start, which is exact because
+// the engine is deterministic. Returns the new engine state.
+export const seekReplay = (player: ReplayPlayer, stepIndex: number): EngineState => {
+  const target = Math.max(0, Math.min(stepIndex, player.recording.steps));
+  if (target < player.stepIndex) {
+    Object.assign(player, createReplay(player.recording));
+  }
+  while (player.stepIndex < target) {
+    stepReplay(player);
+  }
+  return player.state;
+};
+
+// Files store each input's step as the distance from the previous input's,
+// which keeps the numbers short
+export const serializeRecording = (recording: Recording): string =>
+  JSON.stringify({
+    ...recording,
+    inputs: recording.inputs.map((input, index) =>
+      [input[0] - (index > 0 ? recording.inputs[index - 1][0] : 0), input[1], input[2]])
+  });
+
+// A stored input: steps since the previous input, then the kind and its value
+const isStoredInput = (input: unknown): input is RecordedInput => {
+  if (!Array.isArray(input) || input.length !== 3 || !isCount(input[0])) return false;
+  const [, kind, value] = input;
+  switch (kind) {
+    case 'l':
+    case 'r':
+      return value === 0 || value === 1;
+    case 's':
+      return isNumber(value);
+    case 'k':
+      return typeof value === 'string';
+    case 'm':
+      return isGameMode(value);
+    default:
+      return false;
+  }
+};
+
+// Read a replay file. Anything that couldn't be played back exactly is
+// turned away with a message for the player.
+export const parseRecording = (json: string): Recording => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  const notReplay = new Error('This file is not a Type Breaker replay');
+  if (!isRecord(data)) throw notReplay;
+  const { version, seed, mode, stepMs, steps, inputs, layoutId, date } = data;
+  if (typeof version !== 'number' || typeof seed !== 'number' || !Array.isArray(inputs) || !isCount(steps)) {
+    throw notReplay;
+  }
+  if (version > RECORDING_VERSION) {
+    throw new Error('This replay was saved by a newer version of Type Breaker');
+  }
+  if (version < RECORDING_VERSION) {
+    throw new Error('This replay was saved by an older version of Type Breaker and can no longer be played');
+  }
+  const config = normalizeConfig(data.config);
+  if (!config || !isGameMode(mode) || typeof stepMs !== 'number' || stepMs <= 0 ||
+      !inputs.every(isStoredInput)) {
+    throw notReplay;
+  }
+
+  let at = 0;
+  return {
+    version,
+    seed,
+    mode,
+    config,
+    stepMs,
+    steps,
+    inputs: inputs.map(([delta, kind, value]) => {
+      at += delta;
+      return [at, kind, value] as RecordedInput;
+    }),
+    layoutId: isLayoutId(layoutId) ? layoutId : undefined,
+    date: typeof date === 'number' ? date : undefined
+  };
+};
@@ -0,0 +1,39 @@
+// Seeded pseudo-random numbers (mulberry32). The generator state lives on the
+// object passed in, so a game state stays plain data and replays exactly.
+export interface RandomSource {
+  rngState: number;
+}
+
+export const random = (source: RandomSource): number => {
+  source.rngState = (source.rngState + 0x6d2b79f5) | 0;
+  let t = source.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const randomRange = (source: RandomSource, min: number, max: number): number =>
+  min + random(source) * (max - min);
+
+export const shuffle = <T>(source: RandomSource, items: readonly T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random(source) * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Pick an item with probability proportional to its weight
+export const weightedPick = <T>(source: RandomSource, items: readonly T[], weight: (item: T) => number): T => {
+  const total = items.reduce((sum, item) => sum + weight(item), 0);
+  let roll = random(source) * total;
+  for (const item of items) {
+    roll -= weight(item);
+    if (roll < 0) return item;
+  }
+  return items[items.length - 1];
+};
+
+// Fresh seed for a new game; the only non-deterministic call in the engine
+export const randomSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
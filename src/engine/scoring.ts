@@ -0,0 +1,56 @@
+import type { Ball, Brick, ComboState, EngineState, GameEvent, ScoreBreakdown } from './types';
+
+// Every this many correct presses in a row raise the multiplier by one
+const STREAK_PER_MULTIPLIER = 5;
+const MAX_MULTIPLIER = 4;
+
+// A key pressed right after it is prompted earns up to this many points,
+// fewer the longer it took, none after REACTION_BONUS_MS
+const REACTION_BONUS_POINTS = 10;
+const REACTION_BONUS_MS = 1000;
+
+export const createComboState = (): ComboState => ({ streak: 0, bestStreak: 0, multiplier: 1 });
+
+export const emptyScoreBreakdown = (): ScoreBreakdown => ({ bricks: 0, combo: 0, reaction: 0, penalties: 0 });
+
+// A broken brick's points, multiplied by the combo
+export const scoreBrick = (state: EngineState, brick: Brick) => {
+  const bonus = brick.points * (state.combo.multiplier - 1);
+  state.score += brick.points + bonus;
+  state.breakdown.bricks += brick.points;
+  state.breakdown.combo += bonus;
+};
+
+// A prompted key was pressed correctly, one more in a row
+export const extendStreak = (state: EngineState, events: GameEvent[]) => {
+  const { combo } = state;
+  combo.streak++;
+  combo.bestStreak = Math.max(combo.bestStreak, combo.streak);
+  const multiplier = Math.min(MAX_MULTIPLIER, 1 + Math.floor(combo.streak / STREAK_PER_MULTIPLIER));
+  if (multiplier > combo.multiplier) {
+    events.push({ type: 'comboUp', streak: combo.streak, multiplier });
+  }
+  combo.multiplier = multiplier;
+};
+
+export const resetStreak = (state: EngineState) => {
+  state.combo.streak = 0;
+  state.combo.multiplier = 1;
+};
+
+// A miss or a wrong key ends the streak
+export const breakStreak = (state: EngineState, events: GameEvent[]) => {
+  if (state.combo.streak === 0) return;
+  events.push({ type: 'comboBroken', streak: state.combo.streak });
+  resetStreak(state);
+};
+
+// Bonus for the first correct press since the ball asked for the brick's key
+export const awardReaction = (state: EngineState, ball: Ball, brick: Brick, events: GameEvent[]) => {
+  const reaction = state.time - ball.promptedAt;
+  const points = Math.round(REACTION_BONUS_POINTS * (1 - reaction / REACTION_BONUS_MS));
+  if (points <= 0) return;
+  state.score += points;
+  state.breakdown.reaction += points;
+  events.push({ type: 'reactionBonus', brick, points });
+};
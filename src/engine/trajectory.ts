@@ -0,0 +1,105 @@
+import { Contact, MovingCircle, reflect, sweepCircleRect } from './collision';
+import type { Ball, Brick, EngineState } from './types';
+
+// A contact of the ball with the playfield, and what it touched
+export type BallContact = Contact & { with: 'wall' | 'paddle' | Brick };
+
+// Time until the ball reaches a wall it is moving towards. The bottom is open.
+const sweepWalls = (state: EngineState, ball: MovingCircle, maxTime: number): BallContact | null => {
+  const { width } = state.config;
+  const walls: BallContact[] = [];
+  if (ball.dx < 0) walls.push({ time: (ball.size - ball.x) / ball.dx, normalX: 1, normalY: 0, with: 'wall' });
+  if (ball.dx > 0) walls.push({ time: (width - ball.size - ball.x) / ball.dx, normalX: -1, normalY: 0, with: 'wall' });
+  if (ball.dy < 0) walls.push({ time: (ball.size - ball.y) / ball.dy, normalX: 0, normalY: 1, with: 'wall' });
+
+  let earliest: BallContact | null = null;
+  walls.forEach(wall => {
+    wall.time = Math.max(wall.time, 0);
+    if (wall.time <= maxTime && (!earliest || wall.time < earliest.time)) earliest = wall;
+  });
+  return earliest;
+};
+
+// Where the paddle is and how fast it is sliding sideways during a step
+export interface PaddleMotion {
+  x: number;
+  dx: number; // pixels per second
+}
+
+// The ball against the paddle, seen from the paddle: a paddle swept quickly
+// under or into the ball can't jump past it between two steps
+const sweepPaddle = (state: EngineState, ball: MovingCircle, maxTime: number, motion: PaddleMotion): Contact | null => {
+  const { paddle } = state;
+  return sweepCircleRect(
+    { ...ball, dx: ball.dx - motion.dx },
+    { x: motion.x, y: paddle.y, width: paddle.width, height: paddle.height },
+    maxTime
+  );
+};
+
+// The first thing the ball touches within maxTime seconds. Without a motion
+// the paddle stands still where it is.
+export const findContact = (
+  state: EngineState,
+  ball: MovingCircle,
+  maxTime: number,
+  paddleMotion: PaddleMotion = { x: state.paddle.x, dx: 0 }
+): BallContact | null => {
+  let earliest = sweepWalls(state, ball, maxTime);
+
+  const consider = (contact: Contact | null, target: 'paddle' | Brick) => {
+    if (contact && (!earliest || contact.time < earliest.time)) {
+      earliest = { ...contact, with: target };
+    }
+  };
+  consider(sweepPaddle(state, ball, maxTime, paddleMotion), 'paddle');
+  state.bricks.forEach(brick => {
+    if (brick.visible) consider(sweepCircleRect(ball, brick, maxTime), brick);
+  });
+  return earliest;
+};
+
+export interface TrajectoryPoint {
+  x: number;
+  y: number;
+}
+
+export interface Prediction {
+  brick: Brick | null; // the brick the ball will hit next
+  time: number | null; // milliseconds until it does
+  path: TrajectoryPoint[]; // ball centre now, at each bounce, and where the prediction ends
+}
+
+// Bounces looked ahead at most, for a ball trapped between walls
+const MAX_PREDICTED_BOUNCES = 16;
+
+// Follow a ball forward off the walls and steel until it reaches a brick,
+// the paddle or the end of the horizon. The paddle ends the prediction, since
+// where the ball goes from there is up to the player.
+export const predictTrajectory = (
+  state: EngineState,
+  from: Ball,
+  horizonMs = state.config.predictionHorizon
+): Prediction => {
+  const { x, y, dx, dy, size } = from;
+  const ball: MovingCircle = { x, y, dx, dy, size };
+  const path: TrajectoryPoint[] = [{ x, y }];
+  let remaining = horizonMs / 1000;
+
+  for (let bounces = 0; remaining > 0 && bounces <= MAX_PREDICTED_BOUNCES; bounces++) {
+    const contact = findContact(state, ball, remaining);
+    const time = contact ? contact.time : remaining;
+    ball.x += ball.dx * time;
+    ball.y += ball.dy * time;
+    remaining -= time;
+    path.push({ x: ball.x, y: ball.y });
+
+    if (!contact || contact.with === 'paddle') break;
+    // Steel can't be typed at, so the target is whatever comes after it
+    if (contact.with !== 'wall' && contact.with.type !== 'steel') {
+      return { brick: contact.with, time: horizonMs - remaining * 1000, path };
+    }
+    reflect(ball, contact.normalX, contact.normalY);
+  }
+  return { brick: null, time: null, path };
+};
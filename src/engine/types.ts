@@ -0,0 +1,225 @@
+// classic: bricks break on contact; letter: press the brick's letter just
+// before impact; word: type the whole word spelled by a group of bricks
+export type GameMode = 'classic' | 'letter' | 'word';
+
+export interface Paddle {
+  x: number;
+  y: number;
+  prevX: number; // position before the last step, for interpolated rendering
+  width: number;
+  height: number;
+  speed: number; // pixels per second
+}
+
+export interface Ball {
+  id: number; // stays the same while the ball is in play
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  dx: number; // pixels per second
+  dy: number;
+  size: number;
+  speed: number; // pixels per second
+  stuck: { offset: number; releaseAt: number } | null; // held on a sticky paddle, offset from its left edge
+  targetId: number | null; // brick the ball will hit next, in the typing modes
+  promptedAt: number; // when the key for that brick was first asked for
+}
+
+export type PowerUpType = 'widePaddle' | 'slowBall' | 'multiBall' | 'extraLife' | 'stickyPaddle' | 'shield';
+
+// A power-up falling from a broken brick, waiting to be caught by the paddle
+export interface Capsule {
+  type: PowerUpType;
+  x: number;
+  y: number;
+  prevY: number;
+  width: number;
+  height: number;
+}
+
+// normal: breaks when its hit points run out; steel: never breaks and has no
+// letter; explosive: breaks its neighbours along with itself; shift: its
+// letter has to be typed with Shift held; morph: gets a new letter every time
+// the ball bounces (except in word mode, where it spells its word)
+export type BrickType = 'normal' | 'steel' | 'explosive' | 'shift' | 'morph';
+
+export interface Brick {
+  id: number;
+  type: BrickType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  visible: boolean;
+  hp: number; // hits left before the brick breaks
+  maxHp: number;
+  points: number;
+  letterPool: string; // characters this brick's letter may be drawn from
+  letter: string;
+  lastKeyPressTime: number;
+  wordId: number | null; // word this brick spells a letter of, in word mode
+}
+
+// A group of neighbouring bricks in one row that spell a word together
+export interface Word {
+  id: number;
+  text: string;
+  brickIds: number[];
+  typed: number; // how many characters have been typed correctly so far
+  completedAt: number; // simulated time the last character was typed
+}
+
+// How one legend character of a level grid turns into a brick. Everything is
+// optional; unset fields fall back to the row defaults of the generated wall.
+export interface LevelBrickKind {
+  type?: BrickType;
+  color?: string;
+  hp?: number;
+  points?: number;
+  letter?: string; // always this letter
+  letters?: string; // pool to draw the letter from
+}
+
+// Declarative level description, as stored in the bundled JSON files
+export interface Level {
+  name: string;
+  grid: string[]; // one string per row, one legend character per brick, '.' for a gap
+  bricks: Record<string, LevelBrickKind>;
+  letters?: string; // default letter pool for the whole level
+  ballSpeed?: number; // pixels per second
+  letterPressWindow?: number; // milliseconds, on the desktop scale
+}
+
+// Everything the simulation needs to know about the playfield and the rules
+// What a wrong key costs in letter mode: points, a moment when keys don't
+// count, or a faster ball
+export type WrongKeyPenalty = 'none' | 'score' | 'lockout' | 'speedUp';
+
+export interface EngineConfig {
+  width: number;
+  height: number;
+  paddleWidth: number;
+  paddleHeight: number;
+  paddleSpeed: number; // pixels per second
+  ballSize: number;
+  ballSpeed: number; // pixels per second
+  brickWidth: number;
+  brickHeight: number;
+  brickRows: number;
+  brickCols: number;
+  letterPressWindow: number; // milliseconds before ball hits block
+  wordPressWindow: number; // how long a completed word stays armed, milliseconds
+  predictionHorizon: number; // how far ahead the target brick is looked for, milliseconds
+  lives: number;
+  characters: string; // pool of characters dealt on bricks
+  words: readonly string[]; // word mode vocabulary
+  levels: readonly Level[]; // played in order; empty means one generated wall
+  adaptive: boolean; // tune the press window and ball speed to the player's success rate
+  keyWeights: Record<string, number>; // how often each character comes up, 1 = normal
+  powerUpChance: number; // chance that a broken brick drops a power-up, 0 to 1
+  wrongKeyPenalty: WrongKeyPenalty;
+}
+
+// How one character fared over a game. A prompt is settled as a hit when the
+// key was pressed in time, or as a miss when the ball got there first.
+export interface KeyStats {
+  attempts: number; // settled prompts, hits + misses
+  hits: number;
+  misses: number;
+  wrongPresses: number; // other keys pressed while this one was expected
+  reactionTotal: number; // milliseconds from prompt to correct press, summed
+  reactions: number;
+}
+
+// Running totals for the whole game
+export interface EngineStats {
+  keystrokes: number; // typed characters that had a target to aim at
+  correctKeystrokes: number;
+  bricksBroken: number;
+  keys: Record<string, KeyStats>;
+}
+
+// Current tuning of adaptive difficulty
+export interface AdaptiveState {
+  recent: boolean[]; // outcomes of the latest settled prompts, oldest first
+  windowScale: number; // multiplies the letter press window
+  speedScale: number; // multiplies the ball speed
+}
+
+// Consecutive correct key presses in letter mode, and what they multiply
+// brick points by
+export interface ComboState {
+  streak: number;
+  bestStreak: number;
+  multiplier: number;
+}
+
+// Where the score came from
+export interface ScoreBreakdown {
+  bricks: number; // brick points as they are
+  combo: number; // extra brick points from the multiplier
+  reaction: number; // bonuses for quick presses
+  penalties: number; // points taken for wrong keys, already off the score
+}
+
+export interface EngineState {
+  config: EngineConfig;
+  seed: number;
+  rngState: number;
+  time: number; // simulated milliseconds since the game started
+  score: number;
+  lives: number;
+  levelIndex: number;
+  gameOver: boolean;
+  gameWon: boolean;
+  mode: GameMode;
+  paddle: Paddle;
+  balls: Ball[]; // never empty while the game runs
+  nextBallId: number;
+  bricks: Brick[];
+  capsules: Capsule[];
+  effects: Partial<Record<PowerUpType, number>>; // power-ups in effect, and the simulated time each runs out
+  words: Word[];
+  lockedUntil: number; // keys typed before this time are ignored, after a wrong key
+  stats: EngineStats;
+  adaptive: AdaptiveState;
+  combo: ComboState;
+  breakdown: ScoreBreakdown;
+}
+
+// A ball and the brick it is heading for
+export interface BallTarget {
+  ball: Ball;
+  brick: Brick;
+}
+
+// Player input gathered since the previous step
+export interface EngineInput {
+  left: boolean;
+  right: boolean;
+  paddleShift: number; // extra pixels to move the paddle by, e.g. from touch taps
+  letters: string[]; // characters typed since the previous step, upper case when Shift was held
+}
+
+export type GameEvent =
+  | { type: 'ballBounced'; surface: 'wall' | 'paddle' | 'brick' }
+  | { type: 'brickHit'; brick: Brick }
+  | { type: 'brickBroken'; brick: Brick }
+  | { type: 'brickExploded'; brick: Brick }
+  | { type: 'targetChanged'; ball: Ball; brick: Brick | null }
+  | { type: 'wordProgress'; word: Word }
+  | { type: 'wordCompleted'; word: Word }
+  | { type: 'wordTypo'; word: Word; expected: string; typed: string }
+  | { type: 'powerUpCaught'; powerUp: PowerUpType }
+  | { type: 'powerUpExpired'; powerUp: PowerUpType }
+  | { type: 'shieldUsed' }
+  | { type: 'comboUp'; streak: number; multiplier: number }
+  | { type: 'comboBroken'; streak: number }
+  | { type: 'reactionBonus'; brick: Brick; points: number }
+  | { type: 'wrongKey'; brick: Brick; typed: string; penalty: WrongKeyPenalty } // brick: the target missed
+  | { type: 'lifeLost'; lives: number }
+  | { type: 'levelCleared'; levelIndex: number }
+  | { type: 'gameOver' }
+  | { type: 'gameWon' };
@@ -0,0 +1,25 @@
+import type { GameMode, WrongKeyPenalty } from './types';
+
+// Checks for data that comes from outside the game: replay files, saved
+// profiles and messages from the race relay
+
+export const GAME_MODES: GameMode[] = ['letter', 'word', 'classic'];
+
+export const WRONG_KEY_PENALTIES: WrongKeyPenalty[] = ['none', 'score', 'lockout', 'speedUp'];
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// A whole number from 0 up, such as a count or an index
+export const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+export const isGameMode = (value: unknown): value is GameMode => GAME_MODES.includes(value as GameMode);
+
+export const isWrongKeyPenalty = (value: unknown): value is WrongKeyPenalty =>
+  WRONG_KEY_PENALTIES.includes(value as WrongKeyPenalty);
+
+export const clamp = (value: number, { min, max }: { min: number; max: number }): number =>
+  Math.max(min, Math.min(max, value));
@@ -0,0 +1,67 @@
+import { createGame, isRunning, step } from './engine';
+import { findKey } from './layouts';
+import type { KeyboardLayout } from './layouts';
+import type { EngineConfig, EngineInput, EngineState, GameEvent } from './types';
+
+// Two players at one keyboard, each with a half of the field and the letters
+// of one hand. Player 0 plays on the left with the left hand.
+export type Hand = 'left' | 'right';
+
+export const PLAYER_HANDS: readonly Hand[] = ['left', 'right'];
+
+export interface VersusMatch {
+  players: EngineState[]; // one game per player, in its own half-width field
+  winner: number | null; // player index; null while playing or for a draw
+  over: boolean;
+}
+
+// The layout's letters typed by one hand
+export const handLetters = (layout: KeyboardLayout, hand: Hand): string =>
+  layout.rows.flat()
+    .filter(key => key.finger.startsWith(hand) && layout.letters.includes(key.char))
+    .map(key => key.char)
+    .join('');
+
+// Which player a character belongs to: whoever's hand types it on the layout
+export const playerForChar = (layout: KeyboardLayout, char: string): number | null => {
+  const key = findKey(layout, char.toUpperCase());
+  return key ? PLAYER_HANDS.findIndex(hand => key.finger.startsWith(hand)) : null;
+};
+
+// Both players get the same seed, so their walls and serves match and only
+// the letters differ. Adaptive difficulty is off, since it would follow one
+// player's key history.
+export const createVersus = (config: EngineConfig, seed: number, layout: KeyboardLayout): VersusMatch => ({
+  players: PLAYER_HANDS.map(hand => createGame({
+    ...config,
+    width: config.width / 2,
+    characters: handLetters(layout, hand),
+    adaptive: false
+  }, seed, 'letter')),
+  winner: null,
+  over: false
+});
+
+// The match ends as soon as a player wins their game, or when both have run
+// out of lives; then the higher score wins
+const settleMatch = (match: VersusMatch) => {
+  const { players } = match;
+  const champion = players.findIndex(player => player.gameWon);
+  if (champion >= 0) {
+    match.winner = champion;
+    match.over = true;
+  } else if (!players.some(isRunning)) {
+    const [first, second] = players;
+    match.winner = first.score === second.score ? null : first.score > second.score ? 0 : 1;
+    match.over = true;
+  }
+};
+
+// Run one step of both games. A player who is out waits for the other.
+// Returns each player's events.
+export const stepVersus = (match: VersusMatch, inputs: EngineInput[], dtMs: number): GameEvent[][] => {
+  if (match.over) return match.players.map(() => []);
+  const events = match.players.map((player, index) => step(player, inputs[index], dtMs));
+  settleMatch(match);
+  return events;
+};
@@ -0,0 +1,166 @@
+import { random, weightedPick } from './rng';
+import { keyWeight } from './adaptive';
+import { promptKey, recordReaction, recordWrongPress, settlePrompt } from './analytics';
+import { forgiveWrongKey } from './powerups';
+import type { Ball, Brick, EngineState, GameEvent, Word } from './types';
+
+// Common short English words, upper case, one to six letters long
+export const WORD_LIST: readonly string[] = [
+  'A', 'I',
+  'AT', 'BE', 'DO', 'GO', 'HE', 'IF', 'IN', 'IS', 'IT', 'ME', 'MY', 'NO', 'OF', 'ON', 'OR', 'SO', 'TO', 'UP', 'US', 'WE',
+  'ALL', 'AND', 'ARE', 'ASK', 'DAD', 'GAS', 'HAD', 'SAD', 'BIG', 'CAN', 'DAY', 'FOR', 'GET', 'HAS', 'HOT', 'JOB', 'KEY', 'LET', 'MAP', 'NEW', 'NOW', 'OLD',
+  'ONE', 'OUT', 'RED', 'RUN', 'SEA', 'SKY', 'SUN', 'TOP', 'TWO', 'WAY', 'YES', 'ZIP',
+  'BALL', 'BLUE', 'FALL', 'FLAG', 'GLAD', 'HALL', 'CODE', 'DARK', 'FAST', 'FISH', 'GAME', 'GOLD', 'HAND', 'HOME', 'JUMP', 'KIND', 'LAKE', 'LIFE',
+  'MOON', 'NEXT', 'PLAY', 'QUIZ', 'ROAD', 'SLOW', 'STAR', 'TYPE', 'WALL', 'WORD', 'YEAR', 'ZERO',
+  'BRICK', 'CLOCK', 'FLASK', 'SALAD', 'GLASS', 'EARTH', 'FIELD', 'GREEN', 'HEART', 'LIGHT', 'MONEY', 'NIGHT', 'OCEAN', 'PLANT', 'QUICK',
+  'RIVER', 'SPACE', 'STONE', 'TABLE', 'VOICE', 'WATER', 'YOUTH',
+  'BREAK', 'FINGER', 'GARDEN', 'JUNGLE', 'KEYPAD', 'LETTER', 'MOTION', 'PLANET', 'ROCKET', 'SILVER', 'WINDOW'
+];
+
+// Common short Russian words, upper case, one to six letters long
+export const RUSSIAN_WORD_LIST: readonly string[] = [
+  'А', 'И', 'В', 'С', 'Я',
+  'ДА', 'ДО', 'ЖЕ', 'ЗА', 'ИЗ', 'МЫ', 'НА', 'НЕ', 'НО', 'ОН', 'ОТ', 'ПО', 'ТЫ', 'УЖ',
+  'ВОТ', 'ГОД', 'ДАР', 'ПАР', 'ЖАР', 'ДОМ', 'ДЫМ', 'ЁЖ', 'КИТ', 'КОТ', 'ЛЕС', 'ЛУК', 'МИР', 'МЯЧ', 'НОС', 'ПОЛ', 'РАК', 'САД',
+  'СОК', 'СЫР', 'ЧАЙ', 'ЩИТ', 'ЭХО',
+  'ВОДА', 'ГОРА', 'ЛАПА', 'ЖАРА', 'ДЕНЬ', 'ЗИМА', 'ИГРА', 'КЛЮЧ', 'ЛИСА', 'ЛУНА', 'МАМА', 'НОЧЬ', 'ОКНО', 'ПАПА', 'РЕКА',
+  'СЛОН', 'СНЕГ', 'УТРО', 'ФЛАГ', 'ХЛЕБ', 'ЦВЕТ', 'ЧАСЫ', 'ШАРФ', 'ЮБКА', 'ЁЛКА',
+  'БУКВА', 'ВЕТЕР', 'ГОРОД', 'ДОЖДЬ', 'КЛАСС', 'ЛАМПА', 'ПАЛЕЦ', 'ПОЛЁТ', 'СЛОВО', 'ТЕКСТ', 'ТРАВА', 'ШКОЛА',
+  'ЯГОДА', 'ЁЖИК',
+  'ЗВЕЗДА', 'ОБЛАКО', 'РАДУГА', 'ЖЁЛУДЬ', 'ЯБЛОКО', 'ПЕСНЯ'
+];
+
+const MAX_WORD_LENGTH = 6;
+
+const pickWord = (state: EngineState, length: number): string => {
+  const candidates = state.config.words.filter(word =>
+    word.length === length && [...word].every(char => state.config.characters.includes(char)));
+  // Vocabularies too small for this length (or pool) fall back to random letters
+  if (candidates.length === 0) {
+    return [...Array(length)]
+      .map(() => state.config.characters[Math.floor(random(state) * state.config.characters.length)])
+      .join('');
+  }
+  // Adaptive games favour words spelled with the player's weak keys
+  return weightedPick(state, candidates, word =>
+    [...word].reduce((sum, char) => sum + keyWeight(state, char), 0) / word.length);
+};
+
+// Split a run of neighbouring bricks into word lengths, avoiding one-letter
+// leftovers wherever the run is long enough
+const splitRun = (state: EngineState, runLength: number): number[] => {
+  const lengths: number[] = [];
+  let remaining = runLength;
+  while (remaining > 0) {
+    const options: number[] = [];
+    for (let length = 2; length <= Math.min(MAX_WORD_LENGTH, remaining); length++) {
+      if (remaining - length !== 1) {
+        options.push(length);
+      }
+    }
+    const length = options.length > 0 ? options[Math.floor(random(state) * options.length)] : remaining;
+    lengths.push(length);
+    remaining -= length;
+  }
+  return lengths;
+};
+
+// Group the visible bricks of every row into words and put one letter on each brick
+export const assignWords = (state: EngineState) => {
+  state.words = [];
+  state.bricks.forEach(brick => {
+    brick.wordId = null;
+  });
+
+  // Runs of visible bricks that sit next to each other in the same row
+  const runs: Brick[][] = [];
+  let run: Brick[] = [];
+  state.bricks.forEach(brick => {
+    const previous = run[run.length - 1];
+    const adjacent = previous && previous.y === brick.y &&
+      brick.x - (previous.x + previous.width) < previous.width / 2;
+    // Steel bricks carry no letter and split the row like a gap
+    const spells = brick.visible && brick.type !== 'steel';
+    if (!spells || (previous && !adjacent)) {
+      if (run.length > 0) runs.push(run);
+      run = [];
+    }
+    if (spells) run.push(brick);
+  });
+  if (run.length > 0) runs.push(run);
+
+  runs.forEach(bricks => {
+    let offset = 0;
+    splitRun(state, bricks.length).forEach(length => {
+      const text = pickWord(state, length);
+      const group = bricks.slice(offset, offset + length);
+      const word: Word = {
+        id: state.words.length,
+        text,
+        brickIds: group.map(brick => brick.id),
+        typed: 0,
+        completedAt: -Infinity
+      };
+      group.forEach((brick, index) => {
+        brick.letter = text[index];
+        brick.wordId = word.id;
+      });
+      state.words.push(word);
+      offset += length;
+    });
+  });
+};
+
+export const isWordComplete = (word: Word): boolean => word.typed === word.text.length;
+
+// A completed word stays breakable for a short while, then has to be typed again
+export const isWordArmed = (state: EngineState, word: Word): boolean =>
+  isWordComplete(word) && state.time - word.completedAt <= state.config.wordPressWindow;
+
+export const resetWord = (word: Word) => {
+  word.typed = 0;
+  word.completedAt = -Infinity;
+};
+
+// Feed one typed character into the word the ball is heading for. A typo, or
+// a letter of a shift brick typed without Shift, throws away the progress so far.
+export const typeIntoWord = (
+  state: EngineState,
+  ball: Ball,
+  word: Word,
+  char: string,
+  shifted: boolean,
+  events: GameEvent[]
+) => {
+  if (isWordComplete(word)) {
+    if (isWordArmed(state, word)) return;
+    resetWord(word);
+  }
+
+  const expected = word.text[word.typed];
+  const needsShift = state.bricks[word.brickIds[word.typed]].type === 'shift';
+  const wrong = char !== expected || (needsShift && !shifted);
+  // A shield keeps the word's progress, and the key isn't counted
+  if (wrong && forgiveWrongKey(state, events)) return;
+
+  state.stats.keystrokes++;
+  if (wrong) {
+    recordWrongPress(state, expected);
+    promptKey(state, ball);
+    resetWord(word);
+    events.push({ type: 'wordTypo', word, expected, typed: char });
+    return;
+  }
+
+  state.stats.correctKeystrokes++;
+  recordReaction(state, ball, expected);
+  settlePrompt(state, expected, true);
+  promptKey(state, ball);
+  word.typed++;
+  if (isWordComplete(word)) {
+    word.completedAt = state.time;
+    events.push({ type: 'wordCompleted', word });
+  } else {
+    events.push({ type: 'wordProgress', word });
+  }
+};
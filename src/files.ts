@@ -0,0 +1,21 @@
+import type React from 'react';
+
+// Profiles and replays move between machines as JSON files
+
+export const downloadJson = (fileName: string, json: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Text of the file picked in a file input, or null when none was. The input
+// is cleared, so picking the same file again loads it again.
+export const readPickedFile = async (e: React.ChangeEvent<HTMLInputElement>): Promise<string | null> => {
+  const file = e.target.files?.[0];
+  e.target.value = '';
+  return file ? file.text() : null;
+};
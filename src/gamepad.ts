@@ -0,0 +1,119 @@
+// Steering the paddle with a game controller through the Gamepad API, so the
+// typing hands can stay on the home row
+
+export type GamepadAction = 'pause' | 'restart';
+
+export interface GamepadSettings {
+  axis: number; // index into Gamepad.axes that steers the paddle
+  invert: boolean;
+  deadzone: number; // share of the stick's travel around the centre that does nothing
+  curve: number; // exponent of the response: 1 is linear, higher is finer near the centre
+  speed: number; // paddle speed at full tilt, times the arrow key speed
+  buttons: Record<GamepadAction, number>; // index into Gamepad.buttons
+}
+
+export const GAMEPAD_ACTIONS: GamepadAction[] = ['pause', 'restart'];
+
+export const GAMEPAD_ACTION_LABELS: Record<GamepadAction, string> = {
+  pause: 'Pause',
+  restart: 'Restart after the game'
+};
+
+// Sliders on the controller screen
+export const GAMEPAD_RANGES = {
+  deadzone: { label: 'Deadzone', min: 0, max: 0.5, step: 0.01 },
+  curve: { label: 'Response curve', min: 1, max: 3, step: 0.1 },
+  speed: { label: 'Top speed', min: 0.5, max: 3, step: 0.1 }
+};
+
+// Button numbers of the browser's standard mapping (Xbox names)
+const BUTTON_NAMES = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'Left Stick', 'Right Stick',
+  'D-pad Up', 'D-pad Down', 'D-pad Left', 'D-pad Right', 'Home'];
+
+// The d-pad moves the paddle like the arrow keys
+export const DPAD_LEFT = 14;
+export const DPAD_RIGHT = 15;
+
+export const DEFAULT_GAMEPAD_SETTINGS: GamepadSettings = {
+  axis: 0, // left stick, left to right
+  invert: false,
+  deadzone: 0.15,
+  curve: 2,
+  speed: 1.5,
+  buttons: { pause: 9, restart: 8 }
+};
+
+export const buttonLabel = (index: number): string => BUTTON_NAMES[index] ?? `Button ${index}`;
+
+export const axisLabel = (index: number): string =>
+  ['Left stick ↔', 'Left stick ↕', 'Right stick ↔', 'Right stick ↕'][index] ?? `Axis ${index}`;
+
+// Paddle speed from -1 (full left) to 1 (full right) for a raw axis value.
+// Travel past the deadzone is stretched back to the full range, then curved.
+export const stickValue = (raw: number, settings: GamepadSettings): number => {
+  const tilt = Math.abs(raw);
+  if (tilt <= settings.deadzone) return 0;
+  const travel = Math.min(1, (tilt - settings.deadzone) / (1 - settings.deadzone));
+  return Math.sign(raw) * (settings.invert ? -1 : 1) * Math.pow(travel, settings.curve);
+};
+
+// Why the buttons can't be saved, by action: shared, or taken by the d-pad
+export const findButtonConflicts = (buttons: Record<GamepadAction, number>): Partial<Record<GamepadAction, string>> => {
+  const conflicts: Partial<Record<GamepadAction, string>> = {};
+  GAMEPAD_ACTIONS.forEach(action => {
+    const button = buttons[action];
+    if (button === DPAD_LEFT || button === DPAD_RIGHT) {
+      conflicts[action] = `${buttonLabel(button)} moves the paddle`;
+      return;
+    }
+    const other = GAMEPAD_ACTIONS.find(candidate => candidate !== action && buttons[candidate] === button);
+    if (other) conflicts[action] = `${buttonLabel(button)} is also ${GAMEPAD_ACTION_LABELS[other].toLowerCase()}`;
+  });
+  return conflicts;
+};
+
+// One poll of the first connected controller
+export interface GamepadReading {
+  id: string;
+  axes: readonly number[];
+  steer: number; // stickValue of the steering axis
+  left: boolean; // d-pad held
+  right: boolean;
+  pressed: number[]; // buttons that went down since the last poll
+  actions: GamepadAction[]; // what those presses mean
+}
+
+export interface GamepadReader {
+  read(settings: GamepadSettings): GamepadReading | null; // null when no controller is connected
+}
+
+const isPressed = (button: GamepadButton | undefined): boolean => !!button?.pressed;
+
+// Polls the controller. Remembers the buttons held at the last poll, so a
+// press counts once however long the button stays down.
+export const createGamepadReader = (): GamepadReader => {
+  let held: boolean[] = [];
+
+  const read = (settings: GamepadSettings): GamepadReading | null => {
+    const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+    const pad = Array.from(pads).find((candidate): candidate is Gamepad => !!candidate && candidate.connected);
+    if (!pad) {
+      held = [];
+      return null;
+    }
+    const down = pad.buttons.map(isPressed);
+    const pressed = down.flatMap((isDown, index) => (isDown && !held[index] ? [index] : []));
+    held = down;
+    return {
+      id: pad.id,
+      axes: pad.axes,
+      steer: stickValue(pad.axes[settings.axis] ?? 0, settings),
+      left: isPressed(pad.buttons[DPAD_LEFT]),
+      right: isPressed(pad.buttons[DPAD_RIGHT]),
+      pressed,
+      actions: GAMEPAD_ACTIONS.filter(action => pressed.includes(settings.buttons[action]))
+    };
+  };
+
+  return { read };
+};
@@ -0,0 +1,96 @@
+import { CONFIG_RANGES } from './engine';
+
+// Gameplay constants the player can tune on the settings screen, as presets
+// or custom values
+
+export type GameplayPreset = 'easy' | 'normal' | 'hard' | 'custom';
+
+export interface GameplayValues {
+  ballSpeed: number; // pixels per second, as levels are played at on Normal
+  letterPressWindow: number; // milliseconds before the ball hits a brick
+  brickRows: number; // rows and columns of the generated wall, when levels are off
+  brickCols: number;
+  lives: number;
+  useLevels: boolean; // play the level campaign rather than one generated wall
+}
+
+export interface GameplaySettings {
+  preset: GameplayPreset;
+  custom: GameplayValues; // used when the preset is custom
+}
+
+type Field = Exclude<keyof GameplayValues, 'useLevels'>;
+
+interface FieldRule {
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+}
+
+export const GAMEPLAY_FIELDS: Record<Field, FieldRule> = {
+  ballSpeed: { label: 'Ball speed', unit: 'px/s', ...CONFIG_RANGES.ballSpeed },
+  letterPressWindow: { label: 'Letter press window', unit: 'ms', ...CONFIG_RANGES.letterPressWindow },
+  brickRows: { label: 'Brick rows', unit: '', ...CONFIG_RANGES.brickRows },
+  brickCols: { label: 'Brick columns', unit: '', ...CONFIG_RANGES.brickCols },
+  lives: { label: 'Lives', unit: '', ...CONFIG_RANGES.lives }
+};
+
+// Presets always play the level campaign, so they leave the wall alone
+type PresetValues = Pick<GameplayValues, 'ballSpeed' | 'letterPressWindow' | 'lives'>;
+
+// Presets for a desktop keyboard; touch screens get longer windows
+const PRESETS: Record<Exclude<GameplayPreset, 'custom'>, { desktop: PresetValues; mobile: PresetValues }> = {
+  easy: {
+    desktop: { ballSpeed: 180, letterPressWindow: 800, lives: 15 },
+    mobile: { ballSpeed: 180, letterPressWindow: 1400, lives: 15 }
+  },
+  normal: {
+    desktop: { ballSpeed: 240, letterPressWindow: 500, lives: 10 },
+    mobile: { ballSpeed: 240, letterPressWindow: 1000, lives: 10 }
+  },
+  hard: {
+    desktop: { ballSpeed: 320, letterPressWindow: 350, lives: 5 },
+    mobile: { ballSpeed: 320, letterPressWindow: 700, lives: 5 }
+  }
+};
+
+export const GAMEPLAY_PRESETS = Object.keys(PRESETS) as GameplayPreset[];
+
+export const DEFAULT_GAMEPLAY_SETTINGS: GameplaySettings = {
+  preset: 'normal',
+  custom: { ...PRESETS.normal.desktop, brickRows: 6, brickCols: 10, useLevels: true }
+};
+
+// A preset's values, keeping the wall of the custom values for when the
+// player switches to custom and turns the levels off
+export const presetValues = (
+  preset: Exclude<GameplayPreset, 'custom'>,
+  mobile: boolean,
+  custom: GameplayValues
+): GameplayValues => ({ ...custom, ...PRESETS[preset][mobile ? 'mobile' : 'desktop'], useLevels: true });
+
+// Problems with the values, by field; empty when they can be played
+export const validateGameplay = (values: GameplayValues, maxCols: number): Partial<Record<Field, string>> => {
+  const errors: Partial<Record<Field, string>> = {};
+  (Object.keys(GAMEPLAY_FIELDS) as Field[]).forEach(field => {
+    const { label, min } = GAMEPLAY_FIELDS[field];
+    const max = field === 'brickCols' ? Math.min(GAMEPLAY_FIELDS[field].max, maxCols) : GAMEPLAY_FIELDS[field].max;
+    const value = values[field];
+    if (!Number.isInteger(value)) {
+      errors[field] = `${label} must be a whole number`;
+    } else if (value < min || value > max) {
+      errors[field] = `${label} must be between ${min} and ${max}`;
+    }
+  });
+  return errors;
+};
+
+// The values to play with on this device. A wall saved on a wider screen is
+// squeezed to fit.
+export const gameplayValues = (settings: GameplaySettings, mobile: boolean, maxCols: number): GameplayValues => {
+  const values = settings.preset === 'custom'
+    ? settings.custom
+    : presetValues(settings.preset, mobile, settings.custom);
+  return { ...values, brickCols: Math.min(values.brickCols, maxCols) };
+};
@@ -0,0 +1,37 @@
+import { KeyStats, addKeyStats, averageReaction, emptyKeyStats, keyAccuracy } from './engine';
+
+// History needed before a key's numbers are trusted
+const MIN_ATTEMPTS_FOR_WEIGHT = 3;
+const MAX_KEY_WEIGHT = 4;
+
+// Per-key totals over all finished games, kept per layout so the adaptive
+// mode knows which keys the player struggles with
+export type KeyHistory = Record<string, KeyStats>;
+
+// Add one game's per-key numbers to a history
+export const recordKeyHistory = (history: KeyHistory, keys: KeyHistory): KeyHistory => {
+  const updated = { ...history };
+  Object.entries(keys).forEach(([char, stats]) => {
+    updated[char] = addKeyStats(updated[char] ?? emptyKeyStats(), stats);
+  });
+  return updated;
+};
+
+// How often each key should come up, from the player's past games: keys that
+// are often missed or slow to find come up more, up to MAX_KEY_WEIGHT times
+export const keyWeightsFromHistory = (history: KeyHistory): Record<string, number> => {
+  const known = Object.entries(history)
+    .filter(([, stats]) => stats.attempts + stats.wrongPresses >= MIN_ATTEMPTS_FOR_WEIGHT);
+  const reactions = known.map(([, stats]) => averageReaction(stats)).filter((ms): ms is number => ms !== null);
+  const typicalReaction = reactions.length > 0 ? reactions.reduce((sum, ms) => sum + ms, 0) / reactions.length : null;
+
+  const weights: Record<string, number> = {};
+  known.forEach(([char, stats]) => {
+    const errorRate = 1 - (keyAccuracy(stats) ?? 1);
+    const reaction = averageReaction(stats);
+    const slowness = reaction !== null && typicalReaction ? Math.max(0, reaction / typicalReaction - 1) : 0;
+    weights[char] = Math.min(MAX_KEY_WEIGHT, 1 + errorRate * 3 + slowness);
+  });
+  return weights;
+};
+
@@ -0,0 +1,166 @@
+import { LAYOUTS } from './engine';
+
+// What a key press does in the game. Typing is whatever key isn't bound to a
+// command; the others can be rebound on the controls screen. In a two-player
+// game the move keys steer player 2 and player 1 has keys of their own.
+export type InputAction =
+  | 'moveLeft'
+  | 'moveRight'
+  | 'pause'
+  | 'restart'
+  | 'toggleMode'
+  | 'player1Left'
+  | 'player1Right'
+  | 'typeChar';
+
+export type CommandAction = Exclude<InputAction, 'typeChar'>;
+
+// Shift is left out: it types capitals
+export type Modifier = 'ctrl' | 'alt';
+
+export interface KeyBinding {
+  code: string; // KeyboardEvent.code
+  modifier: Modifier | null;
+}
+
+export type KeyBindings = Record<CommandAction, KeyBinding[]>;
+
+export const COMMAND_ACTIONS: CommandAction[] = [
+  'moveLeft',
+  'moveRight',
+  'pause',
+  'restart',
+  'toggleMode',
+  'player1Left',
+  'player1Right'
+];
+
+// Commands that only exist in two-player games
+export const VERSUS_ACTIONS: CommandAction[] = ['player1Left', 'player1Right'];
+
+export const MODIFIERS: Modifier[] = ['ctrl', 'alt'];
+
+// Most keys one command can have
+export const MAX_BINDINGS = 2;
+
+export const ACTION_LABELS: Record<CommandAction, string> = {
+  moveLeft: 'Move left',
+  moveRight: 'Move right',
+  pause: 'Pause',
+  restart: 'Restart after the game',
+  toggleMode: 'Switch mode',
+  player1Left: 'Player 1 left (two players)',
+  player1Right: 'Player 1 right (two players)'
+};
+
+// Commands sit on keys that type nothing, or behind Alt, so every
+// printable key is free for typing practice
+export const DEFAULT_BINDINGS: KeyBindings = {
+  moveLeft: [{ code: 'ArrowLeft', modifier: null }],
+  moveRight: [{ code: 'ArrowRight', modifier: null }],
+  pause: [{ code: 'Escape', modifier: null }, { code: 'KeyP', modifier: 'alt' }],
+  restart: [{ code: 'KeyR', modifier: 'alt' }],
+  toggleMode: [{ code: 'Digit0', modifier: 'alt' }],
+  // Two-player games only deal letters, so player 1 can steer with digits
+  player1Left: [{ code: 'Digit1', modifier: null }],
+  player1Right: [{ code: 'Digit2', modifier: null }]
+};
+
+// Held by the browser or the system as the modifier itself
+const MODIFIER_CODES = ['ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'ShiftLeft', 'ShiftRight', 'MetaLeft', 'MetaRight'];
+
+// Keys that type a character in some layout, or on the number pad
+const EXTRA_PRINTABLE_CODES = /^(Space|IntlBackslash|Numpad(\d|Decimal|Add|Subtract|Multiply|Divide))$/;
+
+export const isModifierKey = (code: string): boolean => MODIFIER_CODES.includes(code);
+
+export const typesCharacter = (code: string): boolean =>
+  EXTRA_PRINTABLE_CODES.test(code) || Object.values(LAYOUTS).some(layout => code in layout.codeMap);
+
+// Keys that type a letter bricks can carry in some layout
+export const typesLetter = (code: string): boolean =>
+  Object.values(LAYOUTS).some(layout => code in layout.codeMap && layout.letters.includes(layout.codeMap[code]));
+
+interface KeyPress {
+  code: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
+}
+
+// The binding a key press makes; Ctrl wins when both modifiers are held
+export const bindingForKey = (press: KeyPress): KeyBinding => ({
+  code: press.code,
+  modifier: press.ctrlKey ? 'ctrl' : press.altKey ? 'alt' : null
+});
+
+const sameBinding = (a: KeyBinding, b: KeyBinding): boolean =>
+  a.code === b.code && a.modifier === b.modifier;
+
+// The command a key press triggers. Any other key without a modifier goes to
+// typing, where it counts if the layout gives it a character.
+export const actionForKey = (bindings: KeyBindings, press: KeyPress, versus = false): InputAction | null => {
+  const pressed = bindingForKey(press);
+  const command = COMMAND_ACTIONS.find(action =>
+    (versus || !VERSUS_ACTIONS.includes(action)) && bindings[action].some(binding => sameBinding(binding, pressed)));
+  if (command) return command;
+  return pressed.modifier === null && !press.metaKey ? 'typeChar' : null;
+};
+
+// Why each command's keys can't be saved: shared with another command or
+// taking a printable key away from typing. Player 1's keys only have to keep
+// clear of letters. Empty when all is well.
+export const findConflicts = (bindings: KeyBindings): Partial<Record<CommandAction, string>> => {
+  const conflicts: Partial<Record<CommandAction, string>> = {};
+  COMMAND_ACTIONS.forEach(action => {
+    if (bindings[action].length === 0) {
+      conflicts[action] = 'Needs a key';
+      return;
+    }
+    bindings[action].forEach(binding => {
+      if (binding.modifier === null && VERSUS_ACTIONS.includes(action) && typesLetter(binding.code)) {
+        conflicts[action] = `${bindingLabel(binding)} types a letter; pick a digit or hold Ctrl or Alt with it`;
+        return;
+      }
+      if (binding.modifier === null && !VERSUS_ACTIONS.includes(action) && typesCharacter(binding.code)) {
+        conflicts[action] = `${bindingLabel(binding)} types a character; hold Ctrl or Alt with it`;
+        return;
+      }
+      const other = COMMAND_ACTIONS.find(candidate =>
+        candidate !== action && bindings[candidate].some(taken => sameBinding(taken, binding)));
+      if (other) conflicts[action] = `${bindingLabel(binding)} is also ${ACTION_LABELS[other].toLowerCase()}`;
+    });
+  });
+  return conflicts;
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  Space: 'Space',
+  Backquote: '`',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: '\'',
+  Comma: ',',
+  Period: '.',
+  Slash: '/'
+};
+
+// How a binding is shown to the player, e.g. "Alt+R" or "←"
+export const bindingLabel = (binding: KeyBinding): string => {
+  const { code } = binding;
+  const key = KEY_NAMES[code] ?? code.replace(/^(Key|Digit)/, '').replace(/^Numpad/, 'Num ');
+  return binding.modifier ? `${binding.modifier === 'ctrl' ? 'Ctrl' : 'Alt'}+${key}` : key;
+};
+
+// All of a command's keys, for hints like "Esc / Alt+P"
+export const actionKeysLabel = (bindings: KeyBindings, action: CommandAction): string =>
+  bindings[action].map(bindingLabel).join(' / ');
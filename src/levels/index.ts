@@ -0,0 +1,31 @@
+import type { Level } from '../engine';
+import warmUp from './01-warm-up.json';
+import indexFingers from './02-index-fingers.json';
+import pyramid from './03-pyramid.json';
+import checkerboard from './04-checkerboard.json';
+import classicWall from './05-classic-wall.json';
+import fortress from './06-fortress.json';
+import diamond from './07-diamond.json';
+import stripes from './08-stripes.json';
+import columns from './09-columns.json';
+import invader from './10-invader.json';
+import heart from './11-heart.json';
+import finale from './12-finale.json';
+
+// Bundled levels, played in this order. See the README for the file format.
+// JSON imports type brick types as plain strings; unknown ones are built as
+// normal bricks.
+export const LEVELS = [
+  warmUp,
+  indexFingers,
+  pyramid,
+  checkerboard,
+  classicWall,
+  fortress,
+  diamond,
+  stripes,
+  columns,
+  invader,
+  heart,
+  finale
+] as Level[];
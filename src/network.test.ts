@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, EngineConfig } from './engine';
+import { LEVELS } from './levels';
+import { parseServerMessage } from './network';
+
+const config: EngineConfig = { ...DEFAULT_CONFIG, levels: LEVELS, characters: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ' };
+
+const start = (fields: Record<string, unknown>) =>
+  JSON.stringify({ type: 'start', seed: 7, layoutId: 'qwerty', config, opponent: 'Bob', ...fields });
+
+describe('parseServerMessage', () => {
+  it('reads a race start with the settings the game sends', () => {
+    expect(parseServerMessage(start({}))).toEqual({ type: 'start', seed: 7, layoutId: 'qwerty', config, opponent: 'Bob' });
+  });
+
+  it('refuses a start with a layout that is not one of the layouts', () => {
+    ['constructor', '__proto__', 'azerty', 5].forEach(layoutId => {
+      expect(parseServerMessage(start({ layoutId }))).toMatchObject({ type: 'error' });
+    });
+  });
+
+  it('refuses a start with settings it cannot play', () => {
+    [null, 'fast', { ...config, lives: '9' }, { ...config, levels: 'all' }].forEach(settings => {
+      expect(parseServerMessage(start({ config: settings }))).toMatchObject({ type: 'error' });
+    });
+  });
+
+  it('plays a start with the settings clamped and unknown fields left out', () => {
+    const message = parseServerMessage(start({ config: { ...config, lives: 1000, ballSpeed: 0, cheat: true } }));
+    expect(message).toMatchObject({ type: 'start', config: { lives: 20, ballSpeed: 120 } });
+    expect(message?.type === 'start' && message.config).not.toHaveProperty('cheat');
+  });
+
+  it('reads only whole positive numbers of attack rows', () => {
+    expect(parseServerMessage('{"type":"attack","rows":2}')).toEqual({ type: 'attack', rows: 2 });
+    [0, -1, 1.5, '3', null].forEach(rows => {
+      expect(parseServerMessage(JSON.stringify({ type: 'attack', rows }))).toBeNull();
+    });
+  });
+
+  it('ignores what it does not understand', () => {
+    ['not json', '[]', '{"type":"teleport"}', '{"type":"progress","progress":{"score":1}}'].forEach(data => {
+      expect(parseServerMessage(data)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { bricksLeft, isLayoutId, isNumber, isRecord, normalizeConfig } from './engine';
+import type { EngineConfig, EngineState, LayoutId } from './engine';
+
+// Online races go through a small relay (server/relay.js) that pairs two
+// players by room code, deals them one seed and passes their messages on.
+// Every message is a JSON object with a type.
+
+// Raised whenever a message changes; the relay turns other versions away
+export const RACE_PROTOCOL_VERSION = 1;
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:8787';
+
+// What a player sees of the opponent's game
+export interface RaceProgress {
+  score: number;
+  lives: number;
+  bricksLeft: number;
+  level: number; // 1-based
+}
+
+export const raceProgress = (state: EngineState): RaceProgress => ({
+  score: state.score,
+  lives: state.lives,
+  bricksLeft: bricksLeft(state),
+  level: state.levelIndex + 1
+});
+
+export interface JoinMessage {
+  type: 'join';
+  version: number;
+  room: string;
+  name: string;
+  layoutId: LayoutId;
+  config: EngineConfig; // the race is played with the settings of whoever opened the room
+}
+
+// Client to relay
+export type ClientMessage =
+  | JoinMessage
+  | { type: 'progress'; progress: RaceProgress }
+  | { type: 'attack'; rows: number }
+  | { type: 'finished'; won: boolean; score: number };
+
+// Relay to client; progress, attack and finished come from the opponent
+export type ServerMessage =
+  | { type: 'waiting'; room: string }
+  | { type: 'start'; seed: number; layoutId: LayoutId; config: EngineConfig; opponent: string }
+  | { type: 'progress'; progress: RaceProgress }
+  | { type: 'attack'; rows: number }
+  | { type: 'finished'; won: boolean; score: number }
+  | { type: 'left' }
+  | { type: 'error'; message: string };
+
+const isProgress = (value: unknown): value is RaceProgress =>
+  isRecord(value) && ['score', 'lives', 'bricksLeft', 'level'].every(field => isNumber(value[field]));
+
+// A message from the relay, or null for anything this version doesn't know
+export const parseServerMessage = (data: string): ServerMessage | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!isRecord(message)) return null;
+  switch (message.type) {
+    case 'waiting':
+      return typeof message.room === 'string' ? { type: 'waiting', room: message.room } : null;
+    case 'start': {
+      if (typeof message.seed !== 'number' || typeof message.opponent !== 'string') return null;
+      // The settings are the other player's, so they are read as carefully as a replay file
+      const config = normalizeConfig(message.config);
+      if (!config || !isLayoutId(message.layoutId)) {
+        return { type: 'error', message: "The other player's race settings could not be read" };
+      }
+      return { type: 'start', seed: message.seed, layoutId: message.layoutId, config, opponent: message.opponent };
+    }
+    case 'progress':
+      return isProgress(message.progress) ? { type: 'progress', progress: message.progress } : null;
+    case 'attack':
+      return Number.isInteger(message.rows) && (message.rows as number) > 0
+        ? { type: 'attack', rows: message.rows as number }
+        : null;
+    case 'finished':
+      return typeof message.won === 'boolean' && typeof message.score === 'number'
+        ? { type: 'finished', won: message.won, score: message.score }
+        : null;
+    case 'left':
+      return { type: 'left' };
+    case 'error':
+      return typeof message.message === 'string' ? { type: 'error', message: message.message } : null;
+    default:
+      return null;
+  }
+};
+
+export interface RaceHandlers {
+  onMessage: (message: ServerMessage) => void;
+  onClose: (reason: string) => void; // not called after close()
+}
+
+export interface RaceConnection {
+  send(message: Exclude<ClientMessage, JoinMessage>): void;
+  close(): void;
+}
+
+// Connect to the relay and join a room as soon as the socket opens
+export const connectRace = (
+  url: string,
+  join: Omit<JoinMessage, 'type' | 'version'>,
+  handlers: RaceHandlers
+): RaceConnection => {
+  const socket = new WebSocket(url);
+  let opened = false;
+  let closed = false;
+
+  const post = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  socket.addEventListener('open', () => {
+    opened = true;
+    post({ type: 'join', version: RACE_PROTOCOL_VERSION, ...join });
+  });
+  socket.addEventListener('message', event => {
+    const message = typeof event.data === 'string' ? parseServerMessage(event.data) : null;
+    if (message && !closed) handlers.onMessage(message);
+  });
+  const end = () => {
+    if (closed) return;
+    closed = true;
+    handlers.onClose(opened ? 'The connection to the relay was lost' : `Could not reach the relay at ${url}`);
+  };
+  socket.addEventListener('close', end);
+  // Not every runtime follows a failed connection with a close event
+  socket.addEventListener('error', () => {
+    if (!opened) end();
+  });
+
+  return {
+    send: post,
+    close() {
+      closed = true;
+      socket.close();
+    }
+  };
+};
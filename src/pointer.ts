@@ -0,0 +1,75 @@
+// Moving the paddle with a mouse, pen or finger through Pointer Events
+
+// Follow puts the paddle under the pointer; trackpad moves it by how far the
+// pointer moves, so a short swipe can cross the field
+export type PointerMode = 'off' | 'follow' | 'trackpad';
+
+export interface PointerSettings {
+  mode: PointerMode; // what the mouse does; a finger or pen always drags the paddle
+  sensitivity: number; // paddle pixels per pointer pixel in trackpad mode
+  pointerLock: boolean; // trackpad mode captures the mouse pointer while playing
+}
+
+export const POINTER_MODES: PointerMode[] = ['off', 'follow', 'trackpad'];
+
+export const POINTER_MODE_LABELS: Record<PointerMode, string> = {
+  off: 'Off',
+  follow: 'Follow',
+  trackpad: 'Trackpad'
+};
+
+export const SENSITIVITY_RANGE = { min: 0.25, max: 4, step: 0.05 };
+
+export const DEFAULT_POINTER_SETTINGS: PointerSettings = {
+  mode: 'follow',
+  sensitivity: 1,
+  pointerLock: false
+};
+
+// The paddle covers about two thirds of the way to the pointer in this time,
+// which takes the jitter out of a hand on a mouse
+const SMOOTHING_MS = 40;
+
+// Close enough to call the paddle there and leave it to the other controls
+const SETTLE_DISTANCE = 0.5;
+
+interface PaddleSpan {
+  x: number;
+  width: number;
+}
+
+export interface PointerTracker {
+  follow(x: number): void; // field x the paddle centre should reach
+  nudge(dx: number, paddle: PaddleSpan): void; // field pixels to move the target by
+  shift(paddle: PaddleSpan, fieldWidth: number, stepMs: number): number; // pixels to move the paddle this step
+  release(): void;
+}
+
+// Remembers where the pointer wants the paddle. Once the paddle gets there the
+// target is dropped, so a mouse left lying still doesn't fight the arrow keys.
+export const createPointerTracker = (): PointerTracker => {
+  let target: number | null = null;
+
+  return {
+    follow(x) {
+      target = x;
+    },
+    nudge(dx, paddle) {
+      target = (target ?? paddle.x + paddle.width / 2) + dx;
+    },
+    shift(paddle, fieldWidth, stepMs) {
+      if (target === null) return 0;
+      const half = paddle.width / 2;
+      target = Math.max(half, Math.min(fieldWidth - half, target));
+      const distance = target - (paddle.x + half);
+      if (Math.abs(distance) < SETTLE_DISTANCE) {
+        target = null;
+        return distance;
+      }
+      return distance * (1 - Math.exp(-stepMs / SMOOTHING_MS));
+    },
+    release() {
+      target = null;
+    }
+  };
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { LESSONS } from './curriculum';
+import { keyWeightsFromHistory } from './history';
+import {
+  Profile,
+  SessionRecord,
+  createProfile,
+  exportProfile,
+  importProfile,
+  leaderboard,
+  normalizeProfile,
+  recordGame,
+  summarizeProfile
+} from './profiles';
+
+const session: SessionRecord = {
+  date: 1700000000000,
+  mode: 'letter',
+  layoutId: 'qwerty',
+  lessonId: null,
+  score: 120,
+  level: 1,
+  won: true,
+  accuracy: 0.9,
+  averageReaction: 350,
+  bricksBroken: 12,
+  duration: 60000
+};
+
+const stats = { attempts: 4, hits: 3, misses: 1, wrongPresses: 2, reactionTotal: 900, reactions: 3 };
+
+// A saved profile with the given fields replaced
+const saved = (fields: Record<string, unknown>) => ({ ...JSON.parse(exportProfile(createProfile('Ann'))), ...fields });
+
+describe('normalizeProfile', () => {
+  it('reads back an exported profile unchanged', () => {
+    const profile: Profile = { ...createProfile('Ann'), sessions: [session] };
+    expect(importProfile(exportProfile(profile))).toEqual(profile);
+  });
+
+  it('only takes layout ids of real layouts', () => {
+    const profile = normalizeProfile(saved({ settings: { layoutId: 'constructor' } }));
+    expect(profile.settings.layoutId).toBe('qwerty');
+    expect(normalizeProfile(saved({ settings: { layoutId: 'dvorak' } })).settings.layoutId).toBe('dvorak');
+  });
+
+  it('drops broken sessions and keeps the rest', () => {
+    const profile = normalizeProfile(saved({
+      sessions: [session, null, 'game', { ...session, bricksBroken: 'many' }, { ...session, layoutId: 'toString' }]
+    }));
+    expect(profile.sessions).toEqual([session]);
+    expect(summarizeProfile(profile)).toMatchObject({ games: 1, wins: 1, bricksBroken: 12, playTime: 60000 });
+  });
+
+  it('drops broken high scores, so the leaderboard still sorts', () => {
+    const profile = normalizeProfile(saved({
+      highScores: { letter: [{ score: 50, level: 1, accuracy: null, date: 1 }, { score: '99' }, 7] }
+    }));
+    expect(leaderboard([profile], 'letter').map(entry => entry.score)).toEqual([50]);
+    expect(profile.highScores.word).toEqual([]);
+  });
+
+  it('drops broken key history, layouts it does not know and inherited names', () => {
+    const profile = normalizeProfile(saved({
+      keyHistory: {
+        qwerty: { A: stats, B: { ...stats, hits: null }, C: 'fast' },
+        jcuken: 'lots',
+        constructor: { A: stats },
+        azerty: { A: stats }
+      }
+    }));
+    expect(profile.keyHistory).toEqual({ qwerty: { A: stats } });
+    expect(keyWeightsFromHistory(profile.keyHistory.qwerty ?? {})).toHaveProperty('A');
+  });
+
+  it('drops broken lesson progress', () => {
+    const passed = { accuracy: 0.95, bricksBroken: 20, passed: true };
+    const profile = normalizeProfile(saved({
+      curriculum: {
+        qwerty: { unlocked: 2, best: { 'home-row': passed, 'top-row': { passed: 'yes' } } },
+        dvorak: { unlocked: -1, best: {} },
+        colemak: null,
+        jcuken: { unlocked: 999, best: {} }
+      }
+    }));
+    expect(profile.curriculum).toEqual({
+      qwerty: { unlocked: 2, best: { 'home-row': passed } },
+      jcuken: { unlocked: LESSONS.length, best: {} }
+    });
+    expect(() => summarizeProfile(profile)).not.toThrow();
+  });
+
+  it('rejects data that is not a profile', () => {
+    expect(() => normalizeProfile([])).toThrow('not a Type Breaker profile');
+    expect(() => importProfile('{')).toThrow('not valid JSON');
+  });
+});
+
+describe('recordGame', () => {
+  const game = { session, levelScores: [120], keys: {}, lesson: null, adaptive: false };
+
+  it('keeps adaptive games off the leaderboard but in the history', () => {
+    const adaptive = recordGame(createProfile('Ann'), { ...game, adaptive: true });
+    expect(adaptive.sessions).toEqual([session]);
+    expect(leaderboard([adaptive], 'letter')).toEqual([]);
+    expect(adaptive.levelBests.letter).toEqual([]);
+
+    const fixed = recordGame(adaptive, game);
+    expect(leaderboard([fixed], 'letter').map(entry => entry.score)).toEqual([120]);
+    expect(fixed.levelBests.letter).toEqual([120]);
+  });
+
+  it('starts new players with adaptive difficulty off', () => {
+    expect(createProfile('Ann').settings.adaptive).toBe(false);
+  });
+});
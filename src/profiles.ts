@@ -0,0 +1,458 @@
+import {
+  DEFAULT_LAYOUT_ID,
+  GAME_MODES,
+  GameMode,
+  KeyStats,
+  LayoutId,
+  WrongKeyPenalty,
+  emptyKeyStats,
+  isCount,
+  isGameMode,
+  isLayoutId,
+  isNumber,
+  isRecord,
+  isWrongKeyPenalty
+} from './engine';
+import { CurriculumProgress, LESSONS, LessonResult, emptyProgress, recordLessonResult } from './curriculum';
+import { KeyHistory, recordKeyHistory } from './history';
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS } from './sounds';
+import {
+  DEFAULT_GAMEPLAY_SETTINGS,
+  GAMEPLAY_FIELDS,
+  GAMEPLAY_PRESETS,
+  GameplayPreset,
+  GameplaySettings,
+  GameplayValues
+} from './gameplay';
+import {
+  COMMAND_ACTIONS,
+  DEFAULT_BINDINGS,
+  KeyBinding,
+  KeyBindings,
+  MAX_BINDINGS,
+  MODIFIERS,
+  Modifier,
+  findConflicts
+} from './input';
+import {
+  DEFAULT_GAMEPAD_SETTINGS,
+  GAMEPAD_ACTIONS,
+  GAMEPAD_RANGES,
+  GamepadSettings,
+  findButtonConflicts
+} from './gamepad';
+import { DEFAULT_POINTER_SETTINGS, POINTER_MODES, PointerMode, PointerSettings, SENSITIVITY_RANGE } from './pointer';
+
+// Bumped when the stored shape changes in a way older files can't be read as
+export const PROFILE_VERSION = 1;
+
+const MAX_HIGH_SCORES = 10;
+const MAX_SESSIONS = 100;
+
+// Choices the player made on the start screen, restored on the next visit
+export interface ProfileSettings {
+  layoutId: LayoutId;
+  mode: GameMode;
+  adaptive: boolean;
+  trajectoryPreview: boolean; // draw where the ball is headed, as a training aid
+  virtualKeyboard: boolean; // type on an on-screen keyboard on phones and tablets
+  wrongKeyPenalty: WrongKeyPenalty;
+  audio: AudioSettings;
+  gameplay: GameplaySettings;
+  bindings: KeyBindings;
+  gamepad: GamepadSettings;
+  pointer: PointerSettings;
+}
+
+export interface HighScore {
+  score: number;
+  level: number; // 1-based level reached
+  accuracy: number | null;
+  date: number; // milliseconds since the epoch
+}
+
+// One finished game
+export interface SessionRecord {
+  date: number; // milliseconds since the epoch, when the game ended
+  mode: GameMode;
+  layoutId: LayoutId;
+  lessonId: string | null; // null for free play
+  score: number;
+  level: number; // 1-based level reached
+  won: boolean;
+  accuracy: number | null;
+  averageReaction: number | null; // milliseconds
+  bricksBroken: number;
+  duration: number; // milliseconds of play
+}
+
+export interface Profile {
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  settings: ProfileSettings;
+  highScores: Record<GameMode, HighScore[]>; // free play without adaptive difficulty only, best first
+  levelBests: Record<GameMode, number[]>; // best points scored within each level, by level index
+  sessions: SessionRecord[]; // oldest first
+  keyHistory: Partial<Record<LayoutId, KeyHistory>>;
+  curriculum: Partial<Record<LayoutId, CurriculumProgress>>;
+}
+
+// Everything about a finished game that goes into the profile
+export interface FinishedGame {
+  session: SessionRecord;
+  levelScores: number[]; // points scored within each level played, by level index
+  keys: KeyHistory;
+  lesson: { index: number; result: LessonResult } | null;
+  adaptive: boolean; // the wall and press window followed the player, so the scores don't compare
+}
+
+export const DEFAULT_SETTINGS: ProfileSettings = {
+  layoutId: DEFAULT_LAYOUT_ID,
+  mode: 'letter',
+  adaptive: false,
+  trajectoryPreview: false,
+  virtualKeyboard: true,
+  wrongKeyPenalty: 'score',
+  audio: DEFAULT_AUDIO_SETTINGS,
+  gameplay: DEFAULT_GAMEPLAY_SETTINGS,
+  bindings: DEFAULT_BINDINGS,
+  gamepad: DEFAULT_GAMEPAD_SETTINGS,
+  pointer: DEFAULT_POINTER_SETTINGS
+};
+
+const perMode = <T>(make: () => T): Record<GameMode, T> => ({
+  letter: make(),
+  word: make(),
+  classic: make()
+});
+
+const newProfileId = (): string =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+export const createProfile = (name: string): Profile => ({
+  version: PROFILE_VERSION,
+  id: newProfileId(),
+  name,
+  createdAt: Date.now(),
+  settings: { ...DEFAULT_SETTINGS },
+  highScores: perMode(() => []),
+  levelBests: perMode(() => []),
+  sessions: [],
+  keyHistory: {},
+  curriculum: {}
+});
+
+export const profileProgress = (profile: Profile, layoutId: LayoutId): CurriculumProgress =>
+  profile.curriculum[layoutId] ?? emptyProgress();
+
+export const profileKeyHistory = (profile: Profile, layoutId: LayoutId): KeyHistory =>
+  profile.keyHistory[layoutId] ?? {};
+
+export const updateSettings = (profile: Profile, settings: Partial<ProfileSettings>): Profile => ({
+  ...profile,
+  settings: { ...profile.settings, ...settings }
+});
+
+// Fold a finished game into the profile. Lessons count towards the history and
+// the curriculum, but only free play without adaptive difficulty makes the
+// high-score tables.
+export const recordGame = (profile: Profile, game: FinishedGame): Profile => {
+  const { session } = game;
+  const updated: Profile = {
+    ...profile,
+    sessions: [...profile.sessions, session].slice(-MAX_SESSIONS),
+    keyHistory: { ...profile.keyHistory },
+    curriculum: { ...profile.curriculum }
+  };
+  updated.keyHistory[session.layoutId] = recordKeyHistory(profileKeyHistory(profile, session.layoutId), game.keys);
+
+  if (game.lesson) {
+    updated.curriculum[session.layoutId] = recordLessonResult(
+      profileProgress(profile, session.layoutId),
+      game.lesson.index,
+      game.lesson.result
+    );
+  } else if (!game.adaptive) {
+    const entry: HighScore = {
+      score: session.score,
+      level: session.level,
+      accuracy: session.accuracy,
+      date: session.date
+    };
+    updated.highScores = {
+      ...profile.highScores,
+      [session.mode]: [...profile.highScores[session.mode], entry]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_HIGH_SCORES)
+    };
+
+    const bests = [...profile.levelBests[session.mode]];
+    game.levelScores.forEach((points, index) => {
+      bests[index] = Math.max(bests[index] ?? 0, points);
+    });
+    updated.levelBests = { ...profile.levelBests, [session.mode]: bests };
+  }
+  return updated;
+};
+
+export interface LeaderboardEntry extends HighScore {
+  profileId: string;
+  name: string;
+}
+
+// Best free play scores of every local profile in one mode
+export const leaderboard = (profiles: Profile[], mode: GameMode): LeaderboardEntry[] =>
+  profiles
+    .flatMap(profile => profile.highScores[mode].map(score => ({ ...score, profileId: profile.id, name: profile.name })))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_HIGH_SCORES);
+
+export const exportProfile = (profile: Profile): string => JSON.stringify(profile, null, 2);
+
+const numberOrNull = (value: unknown): number | null => isNumber(value) ? value : null;
+
+// Stored entries that don't make sense are dropped one by one, so a damaged
+// list or table loses only what is broken
+const validList = <T>(source: unknown, normalize: (entry: unknown) => T | null): T[] =>
+  Array.isArray(source) ? source.map(normalize).filter((entry): entry is T => entry !== null) : [];
+
+const listsPerMode = <T>(source: unknown, normalize: (entry: unknown) => T | null): Record<GameMode, T[]> => {
+  const lists = perMode((): T[] => []);
+  if (isRecord(source)) {
+    GAME_MODES.forEach(mode => {
+      lists[mode] = validList(source[mode], normalize);
+    });
+  }
+  return lists;
+};
+
+const validEntries = <T>(source: unknown, normalize: (entry: unknown) => T | null): Record<string, T> =>
+  Object.fromEntries(
+    Object.entries(isRecord(source) ? source : {}).flatMap(([key, entry]) => {
+      const normalized = normalize(entry);
+      return normalized === null ? [] : [[key, normalized] as const];
+    })
+  );
+
+const perLayout = <T>(source: unknown, normalize: (entry: unknown) => T | null): Partial<Record<LayoutId, T>> =>
+  Object.fromEntries(Object.entries(validEntries(source, normalize)).filter(([id]) => isLayoutId(id)));
+
+const normalizeHighScore = (value: unknown): HighScore | null =>
+  isRecord(value) && isNumber(value.score) && isNumber(value.level) && isNumber(value.date)
+    ? { score: value.score, level: value.level, accuracy: numberOrNull(value.accuracy), date: value.date }
+    : null;
+
+// A level never played in a mode is stored as a gap
+const normalizeLevelBest = (value: unknown): number => isNumber(value) ? value : 0;
+
+const normalizeSession = (value: unknown): SessionRecord | null => {
+  if (!isRecord(value)) return null;
+  const { date, mode, layoutId, lessonId, score, level, won, bricksBroken, duration } = value;
+  if (!isNumber(date) || !isGameMode(mode) || !isLayoutId(layoutId) || !isNumber(score) ||
+    !isNumber(level) || typeof won !== 'boolean' || !isNumber(bricksBroken) || !isNumber(duration)) {
+    return null;
+  }
+  return {
+    date,
+    mode,
+    layoutId,
+    lessonId: typeof lessonId === 'string' ? lessonId : null,
+    score,
+    level,
+    won,
+    accuracy: numberOrNull(value.accuracy),
+    averageReaction: numberOrNull(value.averageReaction),
+    bricksBroken,
+    duration
+  };
+};
+
+const KEY_STATS_FIELDS: (keyof KeyStats)[] = ['attempts', 'hits', 'misses', 'wrongPresses', 'reactionTotal', 'reactions'];
+
+const normalizeKeyStats = (value: unknown): KeyStats | null => {
+  if (!isRecord(value)) return null;
+  const stats = emptyKeyStats();
+  for (const field of KEY_STATS_FIELDS) {
+    const number = value[field];
+    if (!isNumber(number) || number < 0) return null;
+    stats[field] = number;
+  }
+  return stats;
+};
+
+const normalizeKeyHistory = (value: unknown): KeyHistory | null =>
+  isRecord(value) ? validEntries(value, normalizeKeyStats) : null;
+
+const normalizeLessonResult = (value: unknown): LessonResult | null =>
+  isRecord(value) && isNumber(value.accuracy) && isNumber(value.bricksBroken) && typeof value.passed === 'boolean'
+    ? { accuracy: value.accuracy, bricksBroken: value.bricksBroken, passed: value.passed }
+    : null;
+
+const normalizeProgress = (value: unknown): CurriculumProgress | null =>
+  isRecord(value) && isCount(value.unlocked) && value.unlocked >= 1
+    ? { unlocked: Math.min(value.unlocked, LESSONS.length), best: validEntries(value.best, normalizeLessonResult) }
+    : null;
+
+const volumeOr = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+
+const normalizeAudio = (value: unknown): AudioSettings => {
+  const audio = isRecord(value) ? value : {};
+  return {
+    masterVolume: volumeOr(audio.masterVolume, DEFAULT_AUDIO_SETTINGS.masterVolume),
+    effectsVolume: volumeOr(audio.effectsVolume, DEFAULT_AUDIO_SETTINGS.effectsVolume),
+    muted: typeof audio.muted === 'boolean' ? audio.muted : DEFAULT_AUDIO_SETTINGS.muted,
+    speakLetters: typeof audio.speakLetters === 'boolean' ? audio.speakLetters : DEFAULT_AUDIO_SETTINGS.speakLetters
+  };
+};
+
+// Custom values out of range fall back to the defaults one by one
+const normalizeGameplay = (value: unknown): GameplaySettings => {
+  const gameplay = isRecord(value) ? value : {};
+  const preset = gameplay.preset as GameplayPreset;
+  const saved = isRecord(gameplay.custom) ? gameplay.custom : {};
+  const custom: GameplayValues = { ...DEFAULT_GAMEPLAY_SETTINGS.custom };
+  (Object.keys(GAMEPLAY_FIELDS) as (keyof typeof GAMEPLAY_FIELDS)[]).forEach(field => {
+    const { min, max } = GAMEPLAY_FIELDS[field];
+    const number = saved[field];
+    if (typeof number === 'number' && Number.isInteger(number) && number >= min && number <= max) {
+      custom[field] = number;
+    }
+  });
+  if (typeof saved.useLevels === 'boolean') custom.useLevels = saved.useLevels;
+  return {
+    preset: preset === 'custom' || GAMEPLAY_PRESETS.includes(preset) ? preset : DEFAULT_GAMEPLAY_SETTINGS.preset,
+    custom
+  };
+};
+
+const isBinding = (value: unknown): value is KeyBinding =>
+  isRecord(value) && typeof value.code === 'string' && value.code !== '' &&
+  (value.modifier === null || MODIFIERS.includes(value.modifier as Modifier));
+
+// Keys that clash with each other or with typing bring back the defaults
+const normalizeBindings = (value: unknown): KeyBindings => {
+  const saved = isRecord(value) ? value : {};
+  const bindings = { ...DEFAULT_BINDINGS };
+  COMMAND_ACTIONS.forEach(action => {
+    const list = saved[action];
+    if (Array.isArray(list)) {
+      bindings[action] = list.filter(isBinding).slice(0, MAX_BINDINGS).map(({ code, modifier }) => ({ code, modifier }));
+    }
+  });
+  return Object.keys(findConflicts(bindings)).length === 0 ? bindings : DEFAULT_BINDINGS;
+};
+
+const normalizeGamepad = (value: unknown): GamepadSettings => {
+  const gamepad = isRecord(value) ? value : {};
+  const saved = isRecord(gamepad.buttons) ? gamepad.buttons : {};
+  const settings: GamepadSettings = {
+    ...DEFAULT_GAMEPAD_SETTINGS,
+    axis: isCount(gamepad.axis) ? gamepad.axis : DEFAULT_GAMEPAD_SETTINGS.axis,
+    invert: typeof gamepad.invert === 'boolean' ? gamepad.invert : DEFAULT_GAMEPAD_SETTINGS.invert,
+    buttons: { ...DEFAULT_GAMEPAD_SETTINGS.buttons }
+  };
+  (Object.keys(GAMEPAD_RANGES) as (keyof typeof GAMEPAD_RANGES)[]).forEach(field => {
+    const { min, max } = GAMEPAD_RANGES[field];
+    const number = gamepad[field];
+    if (typeof number === 'number' && number >= min && number <= max) settings[field] = number;
+  });
+  GAMEPAD_ACTIONS.forEach(action => {
+    const button = saved[action];
+    if (isCount(button)) settings.buttons[action] = button;
+  });
+  if (Object.keys(findButtonConflicts(settings.buttons)).length > 0) {
+    settings.buttons = DEFAULT_GAMEPAD_SETTINGS.buttons;
+  }
+  return settings;
+};
+
+const normalizePointer = (value: unknown): PointerSettings => {
+  const pointer = isRecord(value) ? value : {};
+  const mode = pointer.mode as PointerMode;
+  const { sensitivity } = pointer;
+  return {
+    mode: POINTER_MODES.includes(mode) ? mode : DEFAULT_POINTER_SETTINGS.mode,
+    sensitivity: typeof sensitivity === 'number' && sensitivity >= SENSITIVITY_RANGE.min && sensitivity <= SENSITIVITY_RANGE.max
+      ? sensitivity
+      : DEFAULT_POINTER_SETTINGS.sensitivity,
+    pointerLock: typeof pointer.pointerLock === 'boolean' ? pointer.pointerLock : DEFAULT_POINTER_SETTINGS.pointerLock
+  };
+};
+
+// Fill in whatever an older or hand-edited profile lacks. Throws when the data
+// isn't a profile at all.
+export const normalizeProfile = (data: unknown): Profile => {
+  if (!isRecord(data) || typeof data.id !== 'string' || typeof data.name !== 'string') {
+    throw new Error('This file is not a Type Breaker profile');
+  }
+  if (typeof data.version !== 'number' || data.version > PROFILE_VERSION) {
+    throw new Error('This profile was saved by a newer version of Type Breaker');
+  }
+
+  const defaults = createProfile(data.name);
+  const settings = isRecord(data.settings) ? data.settings : {};
+  const layoutId = settings.layoutId as LayoutId;
+
+  return {
+    ...defaults,
+    id: data.id,
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : defaults.createdAt,
+    settings: {
+      layoutId: isLayoutId(layoutId) ? layoutId : DEFAULT_SETTINGS.layoutId,
+      mode: isGameMode(settings.mode) ? settings.mode : DEFAULT_SETTINGS.mode,
+      adaptive: typeof settings.adaptive === 'boolean' ? settings.adaptive : DEFAULT_SETTINGS.adaptive,
+      trajectoryPreview: typeof settings.trajectoryPreview === 'boolean'
+        ? settings.trajectoryPreview
+        : DEFAULT_SETTINGS.trajectoryPreview,
+      virtualKeyboard: typeof settings.virtualKeyboard === 'boolean'
+        ? settings.virtualKeyboard
+        : DEFAULT_SETTINGS.virtualKeyboard,
+      wrongKeyPenalty: isWrongKeyPenalty(settings.wrongKeyPenalty)
+        ? settings.wrongKeyPenalty
+        : DEFAULT_SETTINGS.wrongKeyPenalty,
+      audio: normalizeAudio(settings.audio),
+      gameplay: normalizeGameplay(settings.gameplay),
+      bindings: normalizeBindings(settings.bindings),
+      gamepad: normalizeGamepad(settings.gamepad),
+      pointer: normalizePointer(settings.pointer)
+    },
+    highScores: listsPerMode(data.highScores, normalizeHighScore),
+    levelBests: listsPerMode(data.levelBests, normalizeLevelBest),
+    sessions: validList(data.sessions, normalizeSession).slice(-MAX_SESSIONS),
+    keyHistory: perLayout(data.keyHistory, normalizeKeyHistory),
+    curriculum: perLayout(data.curriculum, normalizeProgress)
+  };
+};
+
+export const importProfile = (json: string): Profile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  return normalizeProfile(data);
+};
+
+// Totals shown next to the leaderboard
+export interface ProfileSummary {
+  games: number;
+  wins: number;
+  bricksBroken: number;
+  playTime: number; // milliseconds
+  lessonsPassed: number;
+}
+
+export const summarizeProfile = (profile: Profile): ProfileSummary => ({
+  games: profile.sessions.length,
+  wins: profile.sessions.filter(session => session.won).length,
+  bricksBroken: profile.sessions.reduce((sum, session) => sum + session.bricksBroken, 0),
+  playTime: profile.sessions.reduce((sum, session) => sum + session.duration, 0),
+  lessonsPassed: Object.values(profile.curriculum).reduce(
+    (sum, progress) => sum + LESSONS.filter(lesson => progress?.best[lesson.id]?.passed).length,
+    0
+  )
+});
@@ -0,0 +1,81 @@
+import {
+  EngineStats,
+  FINGER_NAMES,
+  Finger,
+  KeyStats,
+  KeyboardLayout,
+  addKeyStats,
+  averageReaction,
+  emptyKeyStats,
+  findKey,
+  keyAccuracy
+} from './engine';
+
+// Keys with fewer prompts than this say little about the player
+const MIN_ATTEMPTS_FOR_WEAKEST = 3;
+const WEAKEST_COUNT = 5;
+
+export interface KeyReport {
+  char: string;
+  finger: Finger | null;
+  stats: KeyStats;
+  accuracy: number;
+  reaction: number | null; // average milliseconds
+}
+
+export interface FingerReport {
+  finger: Finger;
+  name: string;
+  accuracy: number;
+}
+
+// Summary of one game for the post-game screen
+export interface GameReport {
+  keys: Record<string, KeyReport>; // only keys that were asked for
+  weakest: KeyReport[]; // lowest accuracy first, then slowest
+  fingers: FingerReport[]; // lowest accuracy first
+  accuracy: number | null;
+  averageReaction: number | null;
+}
+
+const sumStats = (all: KeyStats[]): KeyStats => all.reduce(addKeyStats, emptyKeyStats());
+
+export const buildReport = (stats: EngineStats, layout: KeyboardLayout): GameReport => {
+  const keys: Record<string, KeyReport> = {};
+  Object.entries(stats.keys).forEach(([char, key]) => {
+    const accuracy = keyAccuracy(key);
+    if (accuracy === null) return;
+    keys[char] = {
+      char,
+      finger: findKey(layout, char)?.finger ?? null,
+      stats: key,
+      accuracy,
+      reaction: averageReaction(key)
+    };
+  });
+  const reports = Object.values(keys);
+
+  const weakest = reports
+    .filter(report => report.stats.attempts + report.stats.wrongPresses >= MIN_ATTEMPTS_FOR_WEAKEST &&
+      report.accuracy < 1)
+    .sort((a, b) => a.accuracy - b.accuracy || (b.reaction ?? 0) - (a.reaction ?? 0))
+    .slice(0, WEAKEST_COUNT);
+
+  const byFinger = new Map<Finger, KeyStats[]>();
+  reports.forEach(report => {
+    if (!report.finger) return;
+    byFinger.set(report.finger, [...(byFinger.get(report.finger) ?? []), report.stats]);
+  });
+  const fingers = [...byFinger.entries()]
+    .map(([finger, all]) => ({ finger, name: FINGER_NAMES[finger], accuracy: keyAccuracy(sumStats(all)) ?? 0 }))
+    .sort((a, b) => a.accuracy - b.accuracy);
+
+  const total = sumStats(reports.map(report => report.stats));
+  return {
+    keys,
+    weakest,
+    fingers,
+    accuracy: keyAccuracy(total),
+    averageReaction: averageReaction(total)
+  };
+};
@@ -0,0 +1,126 @@
+// Sound effects synthesized with WebAudio, so the game ships no audio files,
+// and the target letter read out with SpeechSynthesis
+export type SoundEffect = 'paddle' | 'brick' | 'wall' | 'wrongKey' | 'lifeLost' | 'levelClear';
+
+// One oscillator note sliding from one pitch to another while it fades out
+interface Tone {
+  wave: OscillatorType;
+  frequency: number; // Hz at the start
+  endFrequency: number; // Hz at the end
+  duration: number; // seconds
+  volume: number; // 0 to 1
+  delay?: number; // seconds after the sound starts
+}
+
+// Rising major arpeggio, C5 E5 G5 C6
+const FANFARE = [523.25, 659.25, 783.99, 1046.5];
+
+const SOUNDS: Record<SoundEffect, Tone[]> = {
+  paddle: [{ wave: 'sine', frequency: 330, endFrequency: 220, duration: 0.1, volume: 0.3 }],
+  brick: [{ wave: 'triangle', frequency: 660, endFrequency: 990, duration: 0.09, volume: 0.3 }],
+  wall: [{ wave: 'sine', frequency: 520, endFrequency: 480, duration: 0.05, volume: 0.12 }],
+  wrongKey: [{ wave: 'square', frequency: 150, endFrequency: 90, duration: 0.16, volume: 0.15 }],
+  lifeLost: [{ wave: 'sawtooth', frequency: 440, endFrequency: 110, duration: 0.6, volume: 0.18 }],
+  levelClear: FANFARE.map((frequency, index) => ({
+    wave: 'triangle' as OscillatorType,
+    frequency,
+    endFrequency: frequency,
+    duration: 0.2,
+    volume: 0.25,
+    delay: index * 0.1
+  }))
+};
+
+export interface AudioSettings {
+  masterVolume: number; // 0 to 1, effects and speech
+  effectsVolume: number; // 0 to 1, on top of the master volume
+  muted: boolean;
+  speakLetters: boolean; // read out each new target letter, for accessibility
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  masterVolume: 0.8,
+  effectsVolume: 0.8,
+  muted: false,
+  speakLetters: false
+};
+
+export interface SoundPlayer {
+  play(effect: SoundEffect, pitch?: number): void; // pitch multiplies every frequency
+  speak(text: string, lang: string): void;
+  setSettings(settings: AudioSettings): void;
+}
+
+// Browsers only let audio start after the player has interacted with the
+// page, so the audio context is created with the first sound
+export const createSoundPlayer = (): SoundPlayer => {
+  let settings = DEFAULT_AUDIO_SETTINGS;
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let effects: GainNode | null = null;
+
+  const applyVolumes = () => {
+    if (!context || !master || !effects) return;
+    master.gain.setValueAtTime(settings.muted ? 0 : settings.masterVolume, context.currentTime);
+    effects.gain.setValueAtTime(settings.effectsVolume, context.currentTime);
+  };
+
+  const getEffectsOutput = (): { audio: AudioContext; output: GainNode } | null => {
+    if (!context) {
+      if (typeof AudioContext === 'undefined') return null;
+      context = new AudioContext();
+      master = context.createGain();
+      master.connect(context.destination);
+      effects = context.createGain();
+      effects.connect(master);
+      applyVolumes();
+    }
+    if (context.state === 'suspended') {
+      void context.resume();
+    }
+    return effects && { audio: context, output: effects };
+  };
+
+  return {
+    play(effect, pitch = 1) {
+      if (settings.muted || settings.masterVolume === 0 || settings.effectsVolume === 0) return;
+      const target = getEffectsOutput();
+      if (!target) return;
+      const { audio, output } = target;
+
+      SOUNDS[effect].forEach(tone => {
+        const start = audio.currentTime + (tone.delay ?? 0);
+        const end = start + tone.duration;
+
+        const oscillator = audio.createOscillator();
+        oscillator.type = tone.wave;
+        oscillator.frequency.setValueAtTime(tone.frequency * pitch, start);
+        oscillator.frequency.exponentialRampToValueAtTime(tone.endFrequency * pitch, end);
+
+        const gain = audio.createGain();
+        gain.gain.setValueAtTime(tone.volume, start);
+        gain.gain.exponentialRampToValueAtTime(0.001, end);
+
+        oscillator.connect(gain).connect(output);
+        oscillator.start(start);
+        oscillator.stop(end);
+      });
+    },
+
+    speak(text, lang) {
+      if (!settings.speakLetters || settings.muted || typeof speechSynthesis === 'undefined') return;
+      // Only the newest letter matters; don't queue up stale ones
+      speechSynthesis.cancel();
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      utterance.rate = 1.2;
+      utterance.volume = settings.masterVolume;
+      speechSynthesis.speak(utterance);
+    },
+
+    setSettings(next) {
+      settings = next;
+      applyVolumes();
+    }
+  };
+};
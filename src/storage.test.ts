@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createProfile, exportProfile } from './profiles';
+import { createLocalProfileStorage } from './storage';
+
+// Enough of localStorage for the profile storage, kept in memory
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  };
+};
+
+beforeEach(() => {
+  Object.assign(globalThis, { localStorage: memoryStorage() });
+});
+
+describe('createLocalProfileStorage', () => {
+  it('keeps profiles whose ids are names every object inherits', () => {
+    const ids = ['__proto__', 'constructor'];
+    const stored = Object.fromEntries(ids.map(id => [id, { ...JSON.parse(exportProfile(createProfile(id))), id }]));
+    localStorage.setItem('typeBreaker.profiles', JSON.stringify(stored));
+
+    const storage = createLocalProfileStorage();
+    expect(storage.loadProfiles().map(profile => profile.id).sort()).toEqual(ids);
+
+    const ann = createProfile('Ann');
+    storage.saveProfile(ann);
+    storage.deleteProfile('constructor');
+    const reloaded = createLocalProfileStorage().loadProfiles().map(profile => profile.id);
+    expect(reloaded.sort()).toEqual(['__proto__', ann.id].sort());
+  });
+});
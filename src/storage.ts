@@ -0,0 +1,114 @@
+import { Profile, createProfile, normalizeProfile } from './profiles';
+
+// Where player profiles are kept. The game only talks to this interface, so
+// the browser's localStorage can be swapped for another backend.
+export interface ProfileStorage {
+  loadProfiles(): Profile[];
+  saveProfile(profile: Profile): void;
+  deleteProfile(id: string): void;
+  loadActiveId(): string | null;
+  saveActiveId(id: string): void;
+}
+
+const PROFILES_KEY = 'typeBreaker.profiles';
+const ACTIVE_PROFILE_KEY = 'typeBreaker.activeProfile';
+
+// Saved before there were profiles; moved into the first profile
+const LEGACY_CURRICULUM_KEY = 'typeBreaker.curriculum';
+const LEGACY_KEY_HISTORY_KEY = 'typeBreaker.keyHistory';
+
+const readJson = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled; profiles then only last for this session
+  }
+};
+
+const legacyProfile = (): Profile | null => {
+  const curriculum = readJson(LEGACY_CURRICULUM_KEY);
+  const keyHistory = readJson(LEGACY_KEY_HISTORY_KEY);
+  if (!curriculum && !keyHistory) return null;
+  return normalizeProfile({ ...createProfile('Player 1'), curriculum, keyHistory });
+};
+
+export const createLocalProfileStorage = (): ProfileStorage => {
+  // Keeps working from memory when localStorage is unavailable. A Map, as the
+  // stored ids can be anything, '__proto__' included.
+  let cache: Map<string, Profile> | null = null;
+
+  const load = (): Map<string, Profile> => {
+    if (cache) return cache;
+    const stored = readJson(PROFILES_KEY);
+    const profiles = new Map<string, Profile>();
+    if (stored && typeof stored === 'object') {
+      Object.values(stored).forEach(data => {
+        try {
+          const profile = normalizeProfile(data);
+          profiles.set(profile.id, profile);
+        } catch {
+          // Skip a damaged profile rather than losing the others
+        }
+      });
+    } else {
+      const migrated = legacyProfile();
+      if (migrated) {
+        profiles.set(migrated.id, migrated);
+        save(profiles);
+      }
+    }
+    cache = profiles;
+    return profiles;
+  };
+
+  const save = (profiles: Map<string, Profile>) => writeJson(PROFILES_KEY, Object.fromEntries(profiles));
+
+  return {
+    loadProfiles: () => [...load().values()].sort((a, b) => a.createdAt - b.createdAt),
+    saveProfile: profile => {
+      const profiles = load();
+      profiles.set(profile.id, profile);
+      save(profiles);
+    },
+    deleteProfile: id => {
+      const profiles = load();
+      profiles.delete(id);
+      save(profiles);
+    },
+    loadActiveId: () => {
+      try {
+        return localStorage.getItem(ACTIVE_PROFILE_KEY);
+      } catch {
+        return null;
+      }
+    },
+    saveActiveId: id => {
+      try {
+        localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+      } catch {
+        // Falls back to the first profile next time
+      }
+    }
+  };
+};
+
+// The profile last played with, creating a first one when there is none
+export const loadActiveProfile = (storage: ProfileStorage): Profile => {
+  const profiles = storage.loadProfiles();
+  const activeId = storage.loadActiveId();
+  let profile = profiles.find(candidate => candidate.id === activeId) ?? profiles[0];
+  if (!profile) {
+    profile = createProfile('Player 1');
+    storage.saveProfile(profile);
+  }
+  storage.saveActiveId(profile.id);
+  return profile;
+};
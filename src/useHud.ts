@@ -0,0 +1,109 @@
+import { useCallback, useState } from 'react';
+import { DEFAULT_CONFIG, EngineState, GameMode, VersusMatch, isRunning } from './engine';
+
+// What the HUD and the screens around the canvas show. The engine keeps the
+// game itself; its numbers are copied here whenever they change.
+
+// One player's side of the HUD in a two-player match
+export interface PlayerHud {
+  score: number;
+  lives: number;
+  out: boolean; // lost all lives and waits for the other player
+}
+
+export interface VersusHud {
+  players: PlayerHud[];
+  winner: number | null; // player index; null for a draw
+}
+
+export interface GameState {
+  score: number;
+  lives: number;
+  gameOver: boolean; // in a two-player match, the match is over
+  gameWon: boolean;
+  paused: boolean;
+  mode: GameMode;
+  gameStarted: boolean;
+  level: number; // 1-based
+  versus: VersusHud | null; // set while two players share the keyboard
+}
+
+const versusHud = (match: VersusMatch): VersusHud => ({
+  players: match.players.map(player => ({ score: player.score, lives: player.lives, out: !isRunning(player) })),
+  winner: match.winner
+});
+
+export const useHud = (initialMode: GameMode) => {
+  const [gameState, setGameState] = useState<GameState>({
+    score: 0,
+    lives: DEFAULT_CONFIG.lives,
+    gameOver: false,
+    gameWon: false,
+    paused: false,
+    mode: initialMode,
+    gameStarted: false,
+    level: 1,
+    versus: null
+  });
+
+  // A game that has just begun, alone or as a two-player match
+  const startHud = useCallback((lives: number, mode: GameMode, match: VersusMatch | null = null) => {
+    setGameState({
+      score: 0,
+      lives,
+      gameOver: false,
+      gameWon: false,
+      paused: false,
+      mode,
+      gameStarted: true,
+      level: 1,
+      versus: match && versusHud(match)
+    });
+  }, []);
+
+  // Copy the engine's score, lives and so on into the HUD
+  const syncHud = useCallback((engine: EngineState) => {
+    setGameState(prev => ({
+      ...prev,
+      score: engine.score,
+      lives: engine.lives,
+      gameOver: engine.gameOver,
+      gameWon: engine.gameWon,
+      mode: engine.mode,
+      level: engine.levelIndex + 1
+    }));
+  }, []);
+
+  const syncVersusHud = useCallback((match: VersusMatch) => {
+    setGameState(prev => ({ ...prev, gameOver: match.over, versus: versusHud(match) }));
+  }, []);
+
+  const setHudMode = useCallback((mode: GameMode) => {
+    setGameState(prev => ({ ...prev, mode }));
+  }, []);
+
+  const togglePause = useCallback(() => {
+    setGameState(prev => ({ ...prev, paused: !prev.paused }));
+  }, []);
+
+  // A game decided from outside, such as a race the opponent finished first,
+  // stops where it is
+  const stopHud = useCallback(() => {
+    setGameState(prev => ({ ...prev, gameOver: !prev.gameWon }));
+  }, []);
+
+  // Back to the start screen, in the player's own mode
+  const showStartScreen = useCallback((mode: GameMode) => {
+    setGameState(prev => ({
+      ...prev,
+      gameOver: false,
+      gameWon: false,
+      paused: false,
+      mode,
+      gameStarted: false,
+      versus: null
+    }));
+  }, []);
+
+  return { gameState, startHud, syncHud, syncVersusHud, setHudMode, togglePause, stopHud, showStartScreen };
+};
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { InputAction, KeyBindings, actionForKey } from './input';
+import { useLatest } from './useLatest';
+
+type MoveAction = 'moveLeft' | 'moveRight' | 'player1Left' | 'player1Right';
+
+// Key holding each direction; player1 keys only count in a two-player match
+export type HeldKeys = Partial<Record<MoveAction, string>>;
+
+const isMoveAction = (action: InputAction | null): action is MoveAction =>
+  action === 'moveLeft' || action === 'moveRight' || action === 'player1Left' || action === 'player1Right';
+
+// Something on screen that takes keys while it is up: a panel, a replay, the
+// start screen or the game itself
+export interface KeyLayer {
+  active: boolean;
+  ownInputs?: boolean; // has inputs of its own that keys must reach as typed
+  onKey: (e: KeyboardEvent, action: InputAction | null) => void;
+}
+
+// A layer for a panel that only listens for Escape
+export const closeOnEscape = (close: () => void) => (e: KeyboardEvent) => {
+  if (e.code === 'Escape') close();
+};
+
+// Keys go to the first active layer, so nothing typed into a panel reaches
+// the game under it. Direction keys are tracked while held whatever takes them.
+export const useKeyRouter = (bindings: KeyBindings, layers: KeyLayer[], twoPlayer: () => boolean) => {
+  const heldRef = useRef<HeldKeys>({});
+  // The window listeners are added once and route with the latest layers
+  const routeRef = useLatest({ bindings, layers, twoPlayer });
+
+  const press = useCallback((e: KeyboardEvent) => {
+    const route = routeRef.current;
+    const action = actionForKey(route.bindings, e, route.twoPlayer());
+    if (isMoveAction(action)) heldRef.current[action] = e.code;
+    // A key bound to a command never does what the browser would do with it
+    // (a rebound Ctrl+R mustn't reload the page), except while a panel with
+    // its own inputs is open
+    const active = route.layers.filter(layer => layer.active);
+    if (action !== null && action !== 'typeChar' && !active.some(layer => layer.ownInputs)) e.preventDefault();
+    active[0]?.onKey(e, action);
+  }, [routeRef]);
+
+  useEffect(() => {
+    const release = (e: KeyboardEvent) => {
+      const held = heldRef.current;
+      (Object.keys(held) as MoveAction[]).forEach(action => {
+        if (held[action] === e.code) delete held[action];
+      });
+    };
+    window.addEventListener('keydown', press);
+    window.addEventListener('keyup', release);
+    return () => {
+      window.removeEventListener('keydown', press);
+      window.removeEventListener('keyup', release);
+    };
+  }, [press]);
+
+  return { held: heldRef, press };
+};
@@ -0,0 +1,9 @@
+import { useRef } from 'react';
+
+// A ref holding the value of the latest render, for callbacks that outlive
+// the render they were made in, like window listeners and relay sockets
+export const useLatest = <T>(value: T) => {
+  const ref = useRef(value);
+  ref.current = value;
+  return ref;
+};
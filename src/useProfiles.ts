@@ -0,0 +1,61 @@
+import type React from 'react';
+import { useCallback, useState } from 'react';
+import { Profile, ProfileSettings, createProfile, exportProfile, importProfile, updateSettings } from './profiles';
+import { createLocalProfileStorage, loadActiveProfile } from './storage';
+import { downloadJson, readPickedFile } from './files';
+
+const profileStorage = createLocalProfileStorage();
+
+// The player's saved profile, where settings, records and progress live, and
+// the other profiles on this machine. onSwitch runs when another profile
+// takes over.
+export const useProfiles = (onSwitch: (profile: Profile) => void) => {
+  const [profile, setProfile] = useState<Profile>(() => loadActiveProfile(profileStorage));
+  const [profiles, setProfiles] = useState<Profile[]>(() => profileStorage.loadProfiles());
+
+  // Keep a profile change in storage and in the screens showing it
+  const saveProfile = useCallback((next: Profile) => {
+    profileStorage.saveProfile(next);
+    setProfile(next);
+    setProfiles(profileStorage.loadProfiles());
+  }, []);
+
+  const changeSettings = (settings: Partial<ProfileSettings>) => {
+    saveProfile(updateSettings(profile, settings));
+  };
+
+  // Play as another profile, picking up its settings
+  const switchProfile = (next: Profile) => {
+    profileStorage.saveActiveId(next.id);
+    setProfile(next);
+    onSwitch(next);
+  };
+
+  const addProfile = () => {
+    const name = window.prompt('Player name')?.trim();
+    if (!name) return;
+    const created = createProfile(name);
+    saveProfile(created);
+    switchProfile(created);
+  };
+
+  // Save the profile as a JSON file to move it to another machine
+  const downloadProfile = () => {
+    downloadJson(`type-breaker-${profile.name.replace(/[^\w-]+/g, '_')}.json`, exportProfile(profile));
+  };
+
+  // Load a profile file; one with the same id replaces the local copy
+  const uploadProfile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    try {
+      const text = await readPickedFile(e);
+      if (text === null) return;
+      const imported = importProfile(text);
+      saveProfile(imported);
+      switchProfile(imported);
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : 'Could not import the profile');
+    }
+  };
+
+  return { profile, profiles, saveProfile, changeSettings, switchProfile, addProfile, downloadProfile, uploadProfile };
+};
@@ -0,0 +1,142 @@
+import { useCallback, useRef, useState } from 'react';
+import { EngineState, LayoutId, addAttackRow, attackRowsEarned } from './engine';
+import { JoinMessage, RaceConnection, RaceProgress, ServerMessage, connectRace, raceProgress } from './network';
+import { useLatest } from './useLatest';
+
+// An online race against a player on another machine
+export interface RaceView {
+  status: 'connecting' | 'waiting' | 'racing' | 'over';
+  room: string;
+  opponent: string;
+  layoutId: LayoutId | null; // the layout of whoever opened the room, once racing
+  progress: RaceProgress | null; // the opponent's
+  result: 'won' | 'lost' | null;
+  message: string | null; // why the race stopped early, or a relay error
+}
+
+// What the race screen says while joining
+export const RACE_STATUS: Record<RaceView['status'], (view: RaceView) => string> = {
+  connecting: () => 'Connecting to the relay…',
+  waiting: view => `Waiting in room ${view.room} for an opponent…`,
+  racing: view => `Racing ${view.opponent}`,
+  over: view => view.message ?? 'The race is over'
+};
+
+export type RaceStart = Extract<ServerMessage, { type: 'start' }>;
+
+// What the game does when the race moves on
+export interface RaceEvents {
+  onStart: (start: RaceStart) => void; // build the game from the dealt seed and settings
+  onAttack: (rows: number) => void; // the opponent sent rows, added before the next step
+  onDecided: () => void; // someone finished first; a game still running stops
+}
+
+// The relay connection, what the race screen shows, rows the opponent sent
+// that are still to be added and the streak attacks were last counted at
+export const useRace = (events: RaceEvents) => {
+  const connectionRef = useRef<RaceConnection | null>(null);
+  const [raceView, setRaceView] = useState<RaceView | null>(null);
+  const attacksRef = useRef(0);
+  const streakRef = useRef(0);
+  // The connection keeps the handlers it was opened with
+  const eventsRef = useLatest(events);
+
+  const inRace = useCallback(() => connectionRef.current !== null, []);
+
+  // The race is decided by whoever finishes first
+  const finishRace = useCallback((result: 'won' | 'lost', message: string | null = null) => {
+    setRaceView(prev => prev && prev.result === null ? { ...prev, status: 'over', result, message } : prev);
+    eventsRef.current.onDecided();
+  }, [eventsRef]);
+
+  const handleMessage = useCallback((message: ServerMessage) => {
+    switch (message.type) {
+      case 'waiting':
+        setRaceView(prev => prev && { ...prev, status: 'waiting', room: message.room });
+        break;
+      case 'start':
+        attacksRef.current = 0;
+        streakRef.current = 0;
+        setRaceView(prev => prev && {
+          ...prev,
+          status: 'racing',
+          opponent: message.opponent,
+          layoutId: message.layoutId
+        });
+        eventsRef.current.onStart(message);
+        break;
+      case 'progress':
+        setRaceView(prev => prev && { ...prev, progress: message.progress });
+        break;
+      case 'attack':
+        attacksRef.current += message.rows;
+        eventsRef.current.onAttack(message.rows);
+        break;
+      case 'finished':
+        // Whoever finishes first decides the race: a cleared wall wins it,
+        // running out of lives loses it
+        finishRace(message.won ? 'lost' : 'won');
+        break;
+      case 'left':
+        finishRace('won', 'Your opponent left the race');
+        break;
+      case 'error':
+        // The relay hangs up after an error; a start that can't be played is left the same way
+        connectionRef.current?.close();
+        connectionRef.current = null;
+        setRaceView(prev => prev && { ...prev, status: 'over', message: message.message });
+        break;
+    }
+  }, [eventsRef, finishRace]);
+
+  const joinRace = useCallback((url: string, join: Omit<JoinMessage, 'type' | 'version'>) => {
+    connectionRef.current?.close();
+    setRaceView({ status: 'connecting', room: join.room, opponent: '', layoutId: null, progress: null, result: null, message: null });
+    connectionRef.current = connectRace(url, join, {
+      onMessage: handleMessage,
+      onClose: reason => {
+        connectionRef.current = null;
+        // A relay error already said why; a race that is over stays decided
+        setRaceView(prev => prev && (prev.status === 'over' ? prev : { ...prev, status: 'over', message: reason }));
+      }
+    });
+  }, [handleMessage]);
+
+  // Hang up on the relay; the next game is played alone
+  const leaveRace = useCallback(() => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setRaceView(null);
+  }, []);
+
+  // Tell the opponent how the game ended, which decides the race
+  const reportFinish = useCallback((engine: EngineState) => {
+    connectionRef.current?.send({ type: 'finished', won: engine.gameWon, score: engine.score });
+    finishRace(engine.gameWon ? 'won' : 'lost');
+  }, [finishRace]);
+
+  const reportProgress = useCallback((engine: EngineState) => {
+    connectionRef.current?.send({ type: 'progress', progress: raceProgress(engine) });
+  }, []);
+
+  // Rows the opponent sent go in between steps
+  const takeAttacks = useCallback((engine: EngineState) => {
+    while (attacksRef.current > 0) {
+      addAttackRow(engine);
+      attacksRef.current--;
+    }
+  }, []);
+
+  // A long enough run of correct keys sends the opponent a row. Returns the
+  // rows sent after this step.
+  const sendAttacks = useCallback((engine: EngineState): number => {
+    const connection = connectionRef.current;
+    if (!connection) return 0;
+    const rows = attackRowsEarned(streakRef.current, engine.combo.streak);
+    streakRef.current = engine.combo.streak;
+    if (rows > 0) connection.send({ type: 'attack', rows });
+    return rows;
+  }, []);
+
+  return { raceView, inRace, joinRace, leaveRace, reportFinish, reportProgress, takeAttacks, sendAttacks };
+};
@@ -0,0 +1,187 @@
+import type React from 'react';
+import { useCallback, useRef, useState } from 'react';
+import {
+  EngineInput,
+  EngineState,
+  FixedTimestep,
+  GameEvent,
+  GameMode,
+  LayoutId,
+  Recorder,
+  Recording,
+  ReplayPlayer,
+  advanceFixedTimestep,
+  createRecorder,
+  createReplay,
+  isReplayFinished,
+  parseRecording,
+  recordInput,
+  recordModeChange,
+  seekReplay,
+  serializeRecording,
+  stepReplay
+} from './engine';
+import { downloadJson, readPickedFile } from './files';
+import { useLatest } from './useLatest';
+
+// What the replay controls show while a recording plays
+export interface ReplayView {
+  playing: boolean;
+  speed: number;
+  position: number; // steps played
+  length: number; // steps in the recording
+  stepMs: number;
+  layoutId: LayoutId;
+}
+
+const REPLAY_SEEK_MS = 5000; // how far the arrow keys jump in a replay
+// The replay slider follows playback every this many steps, not every frame
+const REPLAY_POSITION_STEPS = 12;
+
+// What the game does around a replay
+export interface ReplayEvents {
+  onStart: (player: ReplayPlayer) => void; // show the recorded game from its start
+  onSeek: (engine: EngineState) => void; // the recorded game jumped to another step
+  onStop: () => void; // back to the start screen
+}
+
+// Every game played alone is recorded so it can be watched or saved
+// afterwards, and a recording can be played back, paused and seeked through
+export const useReplay = (events: ReplayEvents) => {
+  const recorderRef = useRef<Recorder | null>(null);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const [replayView, setReplayView] = useState<ReplayView | null>(null);
+  const eventsRef = useLatest(events);
+
+  // Record a game that was just created; null for games that aren't kept
+  const record = useCallback((engine: EngineState | null, layoutId?: LayoutId) => {
+    recorderRef.current = engine && createRecorder(engine, layoutId);
+    playerRef.current = null;
+    setReplayView(null);
+  }, []);
+
+  const recordStep = useCallback((input: EngineInput) => {
+    if (recorderRef.current) recordInput(recorderRef.current, input);
+  }, []);
+
+  const recordMode = useCallback((mode: GameMode) => {
+    if (recorderRef.current) recordModeChange(recorderRef.current, mode);
+  }, []);
+
+  // The recording of the last game played, to watch or save
+  const lastRecording = (): Recording | null => recorderRef.current?.recording ?? null;
+
+  // The recording being watched, if any
+  const watching = useCallback(() => playerRef.current, []);
+
+  // Watch a recording from the start. layoutId is for recordings that don't
+  // say which layout they were played on.
+  const startReplay = (recording: Recording, layoutId: LayoutId) => {
+    const player = createReplay(recording);
+    playerRef.current = player;
+    setReplayView({
+      playing: true,
+      speed: 1,
+      position: 0,
+      length: recording.steps,
+      stepMs: recording.stepMs,
+      layoutId: recording.layoutId ?? layoutId // parseRecording keeps only known layouts
+    });
+    eventsRef.current.onStart(player);
+  };
+
+  const seekTo = (position: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    eventsRef.current.onSeek(seekReplay(player, position));
+    setReplayView(prev => prev && { ...prev, position: player.stepIndex });
+  };
+
+  const toggleReplay = () => {
+    const player = playerRef.current;
+    if (!player) return;
+    // Playing a finished replay again starts it over
+    if (isReplayFinished(player)) seekTo(0);
+    setReplayView(prev => prev && { ...prev, playing: !prev.playing });
+  };
+
+  const setReplaySpeed = (speed: number) => {
+    setReplayView(prev => prev && { ...prev, speed });
+  };
+
+  // Back to the start screen
+  const stopReplay = () => {
+    playerRef.current = null;
+    setReplayView(null);
+    eventsRef.current.onStop();
+  };
+
+  // Play on for a frame's worth of time. Returns how far the frame is
+  // between the last two steps.
+  const advanceReplay = useCallback((
+    timestep: FixedTimestep,
+    frameMs: number,
+    onEvents: (events: GameEvent[]) => void
+  ): number => {
+    const player = playerRef.current;
+    if (!player || !replayView) return 1;
+    const alpha = advanceFixedTimestep(timestep, frameMs * replayView.speed, () => {
+      onEvents(stepReplay(player));
+    });
+    const finished = isReplayFinished(player);
+    if (finished || player.stepIndex - replayView.position >= REPLAY_POSITION_STEPS) {
+      setReplayView(prev => prev && { ...prev, playing: prev.playing && !finished, position: player.stepIndex });
+    }
+    return alpha;
+  }, [replayView]);
+
+  // Replay controls; nothing typed reaches the game
+  const replayKey = (e: KeyboardEvent) => {
+    if (!replayView) return;
+    const seekSteps = Math.round(REPLAY_SEEK_MS / replayView.stepMs);
+    if (e.code === 'Space') {
+      e.preventDefault();
+      toggleReplay();
+    } else if (e.code === 'ArrowLeft') {
+      seekTo(replayView.position - seekSteps);
+    } else if (e.code === 'ArrowRight') {
+      seekTo(replayView.position + seekSteps);
+    } else if (e.code === 'Escape') {
+      stopReplay();
+    }
+  };
+
+  const downloadReplay = () => {
+    const recording = recorderRef.current?.recording;
+    if (!recording) return;
+    const date = new Date(recording.date ?? Date.now()).toISOString().slice(0, 10);
+    downloadJson(`type-breaker-replay-${date}.json`, serializeRecording(recording));
+  };
+
+  const uploadReplay = async (e: React.ChangeEvent<HTMLInputElement>, layoutId: LayoutId) => {
+    try {
+      const text = await readPickedFile(e);
+      if (text !== null) startReplay(parseRecording(text), layoutId);
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : 'Could not load the replay');
+    }
+  };
+
+  return {
+    replayView,
+    record,
+    recordStep,
+    recordMode,
+    lastRecording,
+    watching,
+    startReplay,
+    seekTo,
+    toggleReplay,
+    setReplaySpeed,
+    stopReplay,
+    advanceReplay,
+    replayKey,
+    downloadReplay,
+    uploadReplay
+  };
+};
@@ -0,0 +1,67 @@
+import { useCallback, useRef } from 'react';
+import {
+  EngineConfig,
+  FixedTimestep,
+  GameEvent,
+  KeyboardLayout,
+  VersusMatch,
+  advanceFixedTimestep,
+  createVersus,
+  maxBrickCols,
+  playerForChar,
+  randomSeed,
+  stepVersus
+} from './engine';
+import type { HeldKeys } from './useKeyRouter';
+
+// A two-player match at one keyboard, each player with half the field and
+// one hand's letters. Matches aren't recorded or kept in the profile.
+export const createLocalMatch = (config: EngineConfig, layout: KeyboardLayout): VersusMatch =>
+  createVersus(
+    { ...config, brickCols: Math.min(config.brickCols, maxBrickCols(config.width / 2, config.brickWidth)) },
+    randomSeed(),
+    layout
+  );
+
+// The match being played, if any, and the letters each player typed since
+// the last step
+export const useVersus = () => {
+  const matchRef = useRef<VersusMatch | null>(null);
+  const lettersRef = useRef<string[][]>([[], []]);
+
+  const currentMatch = useCallback(() => matchRef.current, []);
+
+  const setMatch = useCallback((match: VersusMatch | null) => {
+    matchRef.current = match;
+    lettersRef.current = [[], []];
+  }, []);
+
+  // A letter goes to the player whose hand types it
+  const typeForPlayer = useCallback((layout: KeyboardLayout, char: string, letter: string) => {
+    const player = playerForChar(layout, char);
+    if (player !== null) lettersRef.current[player].push(letter);
+  }, []);
+
+  // Both players step together, each with their own keys and letters.
+  // Returns how far the frame is between the last two steps.
+  const advanceMatch = useCallback((
+    timestep: FixedTimestep,
+    frameMs: number,
+    held: HeldKeys,
+    onEvents: (match: VersusMatch, events: GameEvent[][]) => void
+  ): number => {
+    const match = matchRef.current;
+    if (!match) return 1;
+    return advanceFixedTimestep(timestep, frameMs, stepMs => {
+      const letters = lettersRef.current;
+      const events = stepVersus(match, [
+        { left: held.player1Left !== undefined, right: held.player1Right !== undefined, paddleShift: 0, letters: letters[0] },
+        { left: held.moveLeft !== undefined, right: held.moveRight !== undefined, paddleShift: 0, letters: letters[1] }
+      ], stepMs);
+      lettersRef.current = [[], []];
+      onEvents(match, events);
+    });
+  }, []);
+
+  return { currentMatch, setMatch, typeForPlayer, advanceMatch };
+};